@@ -3,15 +3,31 @@
  * Rich card templates for Teams bot responses
  * 
  * Features:
- * - Work item summary with links
+ * - Work item summary with links, and the items that failed with a retry action
  * - Identity resolution status indicators
+ * - Transcript citations (speaker, timestamp, quote)
+ * - Meeting minutes: decisions, risks, blockers, open questions
+ * - Proposed status updates on open items from earlier meetings
+ * - Likely duplicates of open work items, with link / comment / create choices
+ * - Confirmation of suspicious extraction runs before work items are created
+ * - Choices for meetings that were processed before
  * - Correlation ID tracking
  * - Processing status cards
  */
 
 import { config } from "../config";
-import { ExtendedWorkItemResult } from "../services/devopsService";
+import { ExtendedWorkItemResult, FailedWorkItem } from "../services/devopsService";
 import { ResolutionResult } from "../services/identityService";
+import {
+  ActionItem,
+  ActionItemSource,
+  DuplicateMatch,
+  DuplicateResolution,
+  MeetingInsight,
+  MeetingMinutes,
+  MeetingWorkItem,
+  StatusUpdate,
+} from "../models/actionItem";
 
 /**
  * Work item icon based on type
@@ -56,14 +72,242 @@ function formatAssignee(resolution?: ResolutionResult): string {
   return `${icon} ${user.displayName}`;
 }
 
+/**
+ * Format a transcript citation: speaker, cue time and quote
+ */
+function formatSource(source: ActionItemSource): string {
+  const time = source.startTime ? ` @ ${source.startTime.replace(/\.\d+$/, "")}` : "";
+  const warning = source.verified === false ? " ⚠️ unverified" : "";
+  return `💬 ${source.speaker}${time}: "${source.quote}"${warning}`;
+}
+
+/**
+ * Minutes sections shown on the summary card, in order
+ */
+const MINUTES_SECTIONS: Array<{ key: keyof MeetingMinutes; title: string }> = [
+  { key: "decisions", title: "🧭 Decisions" },
+  { key: "risks", title: "⚠️ Risks" },
+  { key: "blockers", title: "⛔ Blockers" },
+  { key: "openQuestions", title: "❓ Open Questions" },
+];
+
+/**
+ * One container per non-empty minutes section
+ */
+function createMinutesSections(minutes: MeetingMinutes): object[] {
+  return MINUTES_SECTIONS.filter(({ key }) => (minutes[key] || []).length > 0).map(
+    ({ key, title }) => ({
+      type: "Container",
+      items: [
+        {
+          type: "TextBlock",
+          text: title,
+          weight: "Bolder",
+          spacing: "Medium",
+        },
+        ...(minutes[key] || []).flatMap((insight) => createInsightRow(insight)),
+      ],
+    })
+  );
+}
+
+function createInsightRow(insight: MeetingInsight): object[] {
+  return [
+    {
+      type: "TextBlock",
+      text: `• ${insight.text}${insight.owner ? ` — **${insight.owner}**` : ""}`,
+      wrap: true,
+      size: "Small",
+      spacing: "Small",
+    },
+    ...(insight.source
+      ? [
+          {
+            type: "TextBlock",
+            text: formatSource(insight.source),
+            size: "Small",
+            isSubtle: true,
+            wrap: true,
+            spacing: "None",
+          },
+        ]
+      : []),
+  ];
+}
+
+/**
+ * Status labels for proposed updates
+ */
+const STATUS_LABELS: Record<StatusUpdate["status"], string> = {
+  done: "✅ Done",
+  inProgress: "🔧 In progress",
+  blocked: "⛔ Blocked",
+};
+
+/**
+ * Proposed status updates, with a citation each
+ */
+function createStatusUpdateSection(statusUpdates: StatusUpdate[]): object {
+  return {
+    type: "Container",
+    items: [
+      {
+        type: "TextBlock",
+        text: "🔄 Status Updates on Open Work Items",
+        weight: "Bolder",
+        spacing: "Medium",
+      },
+      ...statusUpdates.flatMap((update) => [
+        {
+          type: "TextBlock",
+          text: `• **${STATUS_LABELS[update.status]}** — #${update.workItemId}${update.title ? ` ${update.title}` : ""}`,
+          wrap: true,
+          size: "Small",
+          spacing: "Small",
+        },
+        ...(update.source
+          ? [
+              {
+                type: "TextBlock",
+                text: formatSource(update.source),
+                size: "Small",
+                isSubtle: true,
+                wrap: true,
+                spacing: "None",
+              },
+            ]
+          : []),
+      ]),
+    ],
+  };
+}
+
+/**
+ * Choices for an action item held back as a likely duplicate
+ */
+const DUPLICATE_CHOICES: Array<{ resolution: DuplicateResolution; title: string }> = [
+  { resolution: "link", title: "🔗 Link as Related" },
+  { resolution: "comment", title: "💬 Add Comment Instead" },
+  { resolution: "create", title: "➕ Create Anyway" },
+];
+
+/**
+ * What was done with a likely duplicate without asking
+ */
+const DUPLICATE_OUTCOMES: Record<DuplicateResolution, string> = {
+  link: "created and linked as related to",
+  comment: "added as a comment on",
+  create: "created anyway despite",
+};
+
+/**
+ * Likely duplicates of open work items: the matches, and either the choices
+ * (when the item is waiting for review) or what the duplicate policy did
+ */
+function createDuplicateSection(duplicates: DuplicateMatch[], confirmationId?: string): object {
+  return {
+    type: "Container",
+    items: [
+      {
+        type: "TextBlock",
+        text: "🔁 Possible Duplicates in Azure DevOps",
+        weight: "Bolder",
+        spacing: "Medium",
+      },
+      ...duplicates.flatMap((match, index) => {
+        const [best] = match.candidates;
+        return [
+          {
+            type: "TextBlock",
+            text: `• **${match.task.title}**`,
+            wrap: true,
+            size: "Small",
+            spacing: "Small",
+          },
+          ...match.candidates.map((candidate) => ({
+            type: "TextBlock",
+            text: `[#${candidate.id}](${candidate.url}) ${candidate.title} (${candidate.state}, ${Math.round(candidate.similarity * 100)}% similar)`,
+            wrap: true,
+            size: "Small",
+            isSubtle: true,
+            spacing: "None",
+          })),
+          ...(match.resolution
+            ? [
+                {
+                  type: "TextBlock",
+                  text: `↳ ${DUPLICATE_OUTCOMES[match.resolution]} #${best.id}`,
+                  size: "Small",
+                  color: "Accent",
+                  wrap: true,
+                  spacing: "None",
+                },
+              ]
+            : confirmationId
+              ? [
+                  {
+                    type: "ActionSet",
+                    spacing: "Small",
+                    actions: DUPLICATE_CHOICES.map((choice) => ({
+                      type: "Action.Submit",
+                      title: choice.title,
+                      data: {
+                        action: "resolveDuplicate",
+                        confirmationId,
+                        index,
+                        resolution: choice.resolution,
+                      },
+                    })),
+                  },
+                ]
+              : []),
+        ];
+      }),
+    ],
+  };
+}
+
+/**
+ * Action items that could not be created, with the error for each
+ */
+function createFailureSection(failures: FailedWorkItem[]): object {
+  return {
+    type: "Container",
+    style: "attention",
+    items: [
+      {
+        type: "TextBlock",
+        text: "❌ Not Created",
+        weight: "Bolder",
+        color: "Attention",
+      },
+      ...failures.map((failure) => ({
+        type: "TextBlock",
+        text: `• **${failure.task.title}** — ${failure.error}`,
+        wrap: true,
+        size: "Small",
+        spacing: "Small",
+      })),
+    ],
+  };
+}
+
 /**
  * Creates an Adaptive Card summarizing the action items extracted and work items created
+ * Proposed status updates are only applied when "Apply Status Updates" is selected;
+ * likely duplicates are only created, linked or commented from their choices, and
+ * failed items are only created again from "Retry Failed Items"
  */
 export function createSummaryCard(
   workItems: ExtendedWorkItemResult[],
   meetingSubject: string,
   summary?: string,
-  correlationId?: string
+  correlationId?: string,
+  warnings?: string[],
+  minutes: MeetingMinutes = {},
+  statusUpdates: StatusUpdate[] = [],
+  duplicates: DuplicateMatch[] = [],
+  failures: FailedWorkItem[] = []
 ): object {
   const workItemRows = workItems.map((item) => ({
     type: "Container",
@@ -141,6 +385,29 @@ export function createSummaryCard(
                 ],
                 spacing: "None",
               },
+              ...(item.source
+                ? [
+                    {
+                      type: "TextBlock",
+                      text: formatSource(item.source),
+                      size: "Small",
+                      isSubtle: true,
+                      wrap: true,
+                      spacing: "Small",
+                    },
+                  ]
+                : []),
+              ...(item.relatedWorkItemId
+                ? [
+                    {
+                      type: "TextBlock",
+                      text: `🔗 Related to #${item.relatedWorkItemId}`,
+                      size: "Small",
+                      isSubtle: true,
+                      spacing: "None",
+                    },
+                  ]
+                : []),
             ],
           },
         ],
@@ -209,14 +476,41 @@ export function createSummaryCard(
         items: [
           {
             type: "TextBlock",
-            text: `✅ Created ${workItems.length} work item${workItems.length !== 1 ? "s" : ""} in Azure DevOps`,
+            text:
+              failures.length > 0
+                ? `⚠️ Created ${workItems.length} of ${workItems.length + failures.length} work items in Azure DevOps`
+                : `✅ Created ${workItems.length} work item${workItems.length !== 1 ? "s" : ""} in Azure DevOps`,
             weight: "Bolder",
-            color: "Good",
+            color: failures.length > 0 ? "Warning" : "Good",
             spacing: "Medium",
             wrap: true,
           },
         ],
       },
+      // Extraction warnings (e.g. transcript parts that failed)
+      ...(warnings && warnings.length > 0
+        ? [
+            {
+              type: "Container",
+              style: "warning",
+              items: [
+                {
+                  type: "TextBlock",
+                  text: "⚠️ Partial results",
+                  weight: "Bolder",
+                  color: "Warning",
+                },
+                ...warnings.map((warning) => ({
+                  type: "TextBlock",
+                  text: warning,
+                  wrap: true,
+                  size: "Small",
+                  spacing: "Small",
+                })),
+              ],
+            },
+          ]
+        : []),
       // Summary (if provided)
       ...(summary
         ? [
@@ -239,6 +533,12 @@ export function createSummaryCard(
             },
           ]
         : []),
+      // Decisions, risks, blockers and open questions
+      ...createMinutesSections(minutes),
+      // Progress on items from earlier meetings in the series
+      ...(statusUpdates.length > 0 ? [createStatusUpdateSection(statusUpdates)] : []),
+      // Items the backlog likely has already
+      ...(duplicates.length > 0 ? [createDuplicateSection(duplicates, correlationId)] : []),
       // Work items list
       {
         type: "Container",
@@ -252,6 +552,8 @@ export function createSummaryCard(
           ...workItemRows,
         ],
       },
+      // Items that could not be created
+      ...(failures.length > 0 ? [createFailureSection(failures)] : []),
       // Footer with correlation ID
       ...(correlationId
         ? [
@@ -272,6 +574,31 @@ export function createSummaryCard(
         : []),
     ],
     actions: [
+      ...(failures.length > 0 && correlationId
+        ? [
+            {
+              type: "Action.Submit",
+              title: `🔁 Retry ${failures.length} Failed Item${failures.length !== 1 ? "s" : ""}`,
+              data: {
+                action: "retryFailedItems",
+                confirmationId: correlationId,
+              },
+            },
+          ]
+        : []),
+      ...(statusUpdates.length > 0 && correlationId
+        ? [
+            {
+              type: "Action.Submit",
+              title: `🔄 Apply ${statusUpdates.length} Status Update${statusUpdates.length !== 1 ? "s" : ""}`,
+              style: "positive",
+              data: {
+                action: "applyStatusUpdates",
+                confirmationId: correlationId,
+              },
+            },
+          ]
+        : []),
       {
         type: "Action.OpenUrl",
         title: "📊 View in Azure DevOps",
@@ -290,6 +617,216 @@ export function createSummaryCard(
   return card;
 }
 
+/**
+ * Creates a card asking a human to confirm a suspicious extraction run
+ * Nothing is created in Azure DevOps until "Create Work Items" is selected
+ */
+export function createConfirmationCard(
+  actionItems: ActionItem[],
+  meetingSubject: string,
+  reasons: string[],
+  confirmationId: string,
+  correlationId?: string
+): object {
+  const itemRows = actionItems.flatMap((item) => [
+    {
+      type: "TextBlock",
+      text: `${getWorkItemIcon(item.type)} **${item.title}** — ${item.assignedTo || "Unassigned"}`,
+      wrap: true,
+      size: "Small",
+      spacing: "Small",
+    },
+    ...(item.source
+      ? [
+          {
+            type: "TextBlock",
+            text: formatSource(item.source),
+            size: "Small",
+            isSubtle: true,
+            wrap: true,
+            spacing: "None",
+          },
+        ]
+      : []),
+  ]);
+
+  return {
+    type: "AdaptiveCard",
+    $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+    version: "1.5",
+    body: [
+      {
+        type: "Container",
+        style: "warning",
+        bleed: true,
+        items: [
+          {
+            type: "TextBlock",
+            text: "🛡️ Please Review Before Creating Work Items",
+            weight: "Bolder",
+            size: "Medium",
+            wrap: true,
+          },
+          {
+            type: "TextBlock",
+            text: meetingSubject,
+            size: "Small",
+            isSubtle: true,
+            wrap: true,
+            spacing: "None",
+          },
+        ],
+        padding: "Default",
+      },
+      {
+        type: "Container",
+        items: [
+          {
+            type: "TextBlock",
+            text: "This meeting may contain instructions aimed at ActionAgent, or the results look unusual:",
+            wrap: true,
+          },
+          {
+            type: "TextBlock",
+            text: reasons.map((reason) => `• ${reason}`).join("\n"),
+            wrap: true,
+            size: "Small",
+            color: "Warning",
+          },
+        ],
+      },
+      {
+        type: "Container",
+        items: [
+          {
+            type: "TextBlock",
+            text: `**Proposed work items (${actionItems.length}):**`,
+            spacing: "Medium",
+          },
+          ...itemRows,
+        ],
+      },
+      ...(correlationId
+        ? [
+            {
+              type: "TextBlock",
+              text: `Reference: ${correlationId}`,
+              size: "Small",
+              color: "Light",
+              spacing: "Large",
+            },
+          ]
+        : []),
+    ],
+    actions: [
+      {
+        type: "Action.Submit",
+        title: "✅ Create Work Items",
+        style: "positive",
+        data: {
+          action: "confirmWorkItems",
+          confirmationId,
+        },
+      },
+      {
+        type: "Action.Submit",
+        title: "🗑️ Discard",
+        style: "destructive",
+        data: {
+          action: "discardWorkItems",
+          confirmationId,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Creates a card for a meeting that already has work items from an earlier run:
+ * show them, process only items not created yet, or rerun everything
+ * @param refresh - Whether the rerun should skip the cached extraction
+ */
+export function createPreviousRunCard(
+  meetingSubject: string,
+  meetingId: string,
+  workItems: MeetingWorkItem[],
+  refresh: boolean = false
+): object {
+  return {
+    type: "AdaptiveCard",
+    $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+    version: "1.5",
+    body: [
+      {
+        type: "Container",
+        style: "emphasis",
+        bleed: true,
+        items: [
+          {
+            type: "TextBlock",
+            text: "🔁 Meeting Already Processed",
+            weight: "Bolder",
+            size: "Medium",
+            wrap: true,
+          },
+          {
+            type: "TextBlock",
+            text: meetingSubject,
+            size: "Small",
+            isSubtle: true,
+            wrap: true,
+            spacing: "None",
+          },
+        ],
+        padding: "Default",
+      },
+      {
+        type: "TextBlock",
+        text: `${workItems.length} work item${workItems.length !== 1 ? "s were" : " was"} already created from this meeting. Processing it again can create duplicates.`,
+        wrap: true,
+      },
+    ],
+    actions: [
+      {
+        type: "Action.ShowCard",
+        title: "📋 Show Existing Results",
+        card: {
+          type: "AdaptiveCard",
+          body: workItems.map((item) => ({
+            type: "TextBlock",
+            text: `${getWorkItemIcon(item.type)} [#${item.id}](${item.url}) ${item.title} — ${item.state}`,
+            wrap: true,
+            size: "Small",
+            spacing: "Small",
+          })),
+        },
+      },
+      {
+        type: "Action.Submit",
+        title: "➕ Process Only New Items",
+        style: "positive",
+        data: {
+          action: "processMeeting",
+          meetingId,
+          rerun: "new",
+          refresh,
+        },
+      },
+      {
+        type: "Action.Submit",
+        title: "⚠️ Force Rerun",
+        style: "destructive",
+        data: {
+          action: "processMeeting",
+          meetingId,
+          rerun: "force",
+          refresh,
+        },
+      },
+    ],
+  };
+}
+
 /**
  * Creates a card shown while processing is in progress
  */
@@ -652,6 +1189,10 @@ export function createHelpCard(): object {
                 title: "process meeting",
                 value: "Analyze a meeting and create work items",
               },
+              {
+                title: "reprocess meeting <id>",
+                value: "Analyze a meeting again, ignoring the cached result",
+              },
               {
                 title: "list meetings",
                 value: "Show recent meetings to choose from",
@@ -36,6 +36,31 @@ function optionalEnv(name: string, defaultValue: string): string {
   return process.env[name] || defaultValue;
 }
 
+/**
+ * Parse a JSON-valued environment variable
+ */
+function jsonEnv<T>(name: string, defaultValue: T): T {
+  const value = process.env[name];
+  if (!value) {
+    return defaultValue;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    throw new Error(`❌ Invalid JSON in environment variable ${name}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Parse a comma-separated environment variable into trimmed, non-empty entries
+ */
+function splitEnvList(name: string, defaultValue: string): string[] {
+  return optionalEnv(name, defaultValue)
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
 /**
  * In demo mode, use placeholder values for M365 configs
  */
@@ -57,17 +82,252 @@ export const azureAd = {
 } as const;
 
 /**
- * Azure OpenAI Configuration (Always Required)
+ * LLM provider selection
+ * - "azure-openai": Azure OpenAI deployment (default)
+ * - "openai": OpenAI platform API
+ * - "openai-compatible": any server exposing the OpenAI chat completions API
+ *   (vLLM, Ollama, LM Studio, LocalAI, ...)
+ */
+export type LlmProviderName = "azure-openai" | "openai" | "openai-compatible";
+
+const llmProviderName = optionalEnv("LLM_PROVIDER", "azure-openai") as LlmProviderName;
+
+/**
+ * Extraction mode
+ * - "llm": extract with the configured LLM provider (default)
+ * - "rules": deterministic, offline rule-based extraction (demos, CI without network)
+ */
+export type ExtractionMode = "llm" | "rules";
+
+const extractionMode = optionalEnv("EXTRACTION_MODE", "llm") as ExtractionMode;
+
+/**
+ * Duplicate detection for extracted action items
+ * - "similarity": token overlap / fuzzy title matching, no model calls (default)
+ * - "embedding": cosine similarity of model embeddings, falling back to
+ *   "similarity" when the provider cannot embed
+ */
+export type DeduplicationMode = "similarity" | "embedding";
+
+/**
+ * Where extraction results are cached
+ */
+export type ExtractionCacheStoreName = "none" | "memory" | "file";
+
+/**
+ * How numeric deadlines like "10/11" are read: month/day ("MD") or day/month ("DM")
+ */
+export type DeadlineDateOrder = "MD" | "DM";
+
+/**
+ * What happens to action items that likely duplicate an open work item:
+ * "review" asks on the summary card, the others are applied without asking
+ */
+export type DuplicatePolicy = "review" | "link" | "comment" | "create";
+
+/**
+ * Require a variable only when the given provider is the active one
+ * (nothing is required in offline rule-based mode)
+ */
+function requireEnvForProvider(
+  provider: LlmProviderName,
+  name: string,
+  defaultValue: string = ""
+): string {
+  return llmProviderName === provider && extractionMode !== "rules"
+    ? requireEnv(name)
+    : optionalEnv(name, defaultValue);
+}
+
+/**
+ * Azure OpenAI Configuration (Required when LLM_PROVIDER=azure-openai)
  */
 export const azureOpenAI = {
-  endpoint: requireEnv("AZURE_OPENAI_ENDPOINT"),
-  apiKey: requireEnv("AZURE_OPENAI_KEY"),
+  endpoint: requireEnvForProvider("azure-openai", "AZURE_OPENAI_ENDPOINT"),
+  apiKey: requireEnvForProvider("azure-openai", "AZURE_OPENAI_KEY"),
   deployment: optionalEnv("AZURE_OPENAI_DEPLOYMENT", "gpt-4o"),
   apiVersion: optionalEnv("AZURE_OPENAI_API_VERSION", "2024-02-01"),
   maxTokens: parseInt(optionalEnv("AZURE_OPENAI_MAX_TOKENS", "4000"), 10),
   temperature: parseFloat(optionalEnv("AZURE_OPENAI_TEMPERATURE", "0.3")),
 } as const;
 
+/**
+ * OpenAI / OpenAI-compatible Configuration
+ * OPENAI_API_KEY is required for the OpenAI platform; OPENAI_BASE_URL is
+ * required for self-hosted compatible servers (the key is often unused there)
+ */
+export const openAI = {
+  apiKey: requireEnvForProvider("openai", "OPENAI_API_KEY"),
+  baseUrl: requireEnvForProvider("openai-compatible", "OPENAI_BASE_URL"),
+  organization: optionalEnv("OPENAI_ORGANIZATION", ""),
+  model: optionalEnv("OPENAI_MODEL", "gpt-4o"),
+  supportsJsonMode: optionalEnv("OPENAI_JSON_MODE", "true") === "true",
+} as const;
+
+/**
+ * Active LLM settings shared by all providers
+ */
+export const llm = {
+  provider: llmProviderName,
+  model: llmProviderName === "azure-openai" ? azureOpenAI.deployment : openAI.model,
+  maxTokens: parseInt(
+    optionalEnv("LLM_MAX_TOKENS", String(azureOpenAI.maxTokens)),
+    10
+  ),
+  temperature: parseFloat(
+    optionalEnv("LLM_TEMPERATURE", String(azureOpenAI.temperature))
+  ),
+  timeoutMs: parseInt(optionalEnv("LLM_TIMEOUT_MS", "120000"), 10),
+  // Context window in tokens; 0 looks it up from the model name
+  contextWindow: parseInt(optionalEnv("LLM_CONTEXT_WINDOW", "0"), 10),
+  // Embedding model (Azure: embedding deployment name) for DEDUP_MODE=embedding
+  embeddingModel: optionalEnv("LLM_EMBEDDING_MODEL", "text-embedding-3-small"),
+} as const;
+
+/**
+ * Action Item Extraction Configuration
+ */
+export const extraction = {
+  mode: extractionMode,
+  // Fall back to the rule-based extractor when the LLM call fails
+  fallbackToRules: optionalEnv("EXTRACTION_FALLBACK_TO_RULES", "true") === "true",
+  // Total model calls per extraction, including repair re-prompts
+  maxAttempts: parseInt(optionalEnv("EXTRACTION_MAX_ATTEMPTS", "3"), 10),
+  // Transcript tokens per model call; 0 uses whatever the context window allows
+  chunkMaxTokens: parseInt(optionalEnv("CHUNK_MAX_TOKENS", "0"), 10),
+  // Tokens repeated from the end of one chunk at the start of the next
+  chunkOverlapTokens: parseInt(optionalEnv("CHUNK_OVERLAP_TOKENS", "500"), 10),
+  // Chunks sent to the model at the same time
+  chunkConcurrency: parseInt(optionalEnv("CHUNK_CONCURRENCY", "4"), 10),
+} as const;
+
+/**
+ * Prompt Template Configuration
+ * Templates are versioned Markdown files (see prompts/README.md)
+ */
+export const prompts = {
+  // Directory holding *.md templates; empty uses the bundled prompts/ directory
+  templatesDir: optionalEnv("PROMPT_TEMPLATES_DIR", ""),
+  defaultTemplate: optionalEnv("PROMPT_TEMPLATE", "default"),
+  // Template per Teams team or conversation ID, e.g. {"19:abc@thread.tacv2": "ops"}
+  assignments: jsonEnv<Record<string, string>>("PROMPT_ASSIGNMENTS", {}),
+  // Project terms added to every template's vocabulary (comma-separated)
+  vocabulary: splitEnvList("PROMPT_VOCABULARY", ""),
+} as const;
+
+/**
+ * Transcript Redaction Configuration
+ * PII and secrets are masked before transcripts leave the service
+ */
+export const redaction = {
+  enabled: optionalEnv("REDACTION_ENABLED", "true") === "true",
+  // Built-in entity types to mask: EMAIL, PHONE, CREDIT_CARD, IP_ADDRESS, SECRET
+  entities: splitEnvList("REDACTION_ENTITIES", "EMAIL,PHONE,CREDIT_CARD,IP_ADDRESS,SECRET"),
+  // Extra entity types as name → regex, e.g. {"CUSTOMER": "\\b(?:Contoso|Fabrikam)\\b"}
+  patterns: jsonEnv<Record<string, string>>("REDACTION_PATTERNS", {}),
+  // Values that are never masked (case-insensitive), e.g. a team distribution list
+  allowList: splitEnvList("REDACTION_ALLOW_LIST", ""),
+  // Entity types restored in work item text; SECRET is never restored
+  restore: splitEnvList("REDACTION_RESTORE", ""),
+} as const;
+
+/**
+ * Prompt-Injection Guard Configuration
+ * Runs with instruction-like utterances or anomalous results need human confirmation
+ */
+export const injectionGuard = {
+  enabled: optionalEnv("INJECTION_GUARD_ENABLED", "true") === "true",
+  // Share of items (0-1) assigned to one person that counts as mass assignment
+  maxAssigneeShare: parseFloat(optionalEnv("INJECTION_GUARD_MAX_ASSIGNEE_SHARE", "0.8")),
+  // Fewer items than this are never treated as mass assignment
+  minItemsForAssigneeShare: parseInt(optionalEnv("INJECTION_GUARD_MIN_ITEMS", "5"), 10),
+  // Share of items (0-1) without a verified transcript citation that is tolerated
+  maxUngroundedShare: parseFloat(optionalEnv("INJECTION_GUARD_MAX_UNGROUNDED_SHARE", "0.5")),
+} as const;
+
+/**
+ * Extraction Cache Configuration
+ * Results are keyed by a hash of transcript, prompt, model and temperature
+ */
+export const cache = {
+  store: optionalEnv("EXTRACTION_CACHE", "memory") as ExtractionCacheStoreName,
+  // Directory for EXTRACTION_CACHE=file
+  dir: optionalEnv("EXTRACTION_CACHE_DIR", ".cache/extractions"),
+  // Seconds a cached result stays valid; 0 keeps results until invalidated
+  ttlSeconds: parseInt(optionalEnv("EXTRACTION_CACHE_TTL_SECONDS", "86400"), 10),
+  // Results kept by EXTRACTION_CACHE=memory; the least recently used are evicted first
+  maxEntries: parseInt(optionalEnv("EXTRACTION_CACHE_MAX_ENTRIES", "500"), 10),
+} as const;
+
+/**
+ * Action Item Deduplication Configuration
+ */
+export const deduplication = {
+  mode: optionalEnv("DEDUP_MODE", "similarity") as DeduplicationMode,
+  // Title similarity (0-1) at which two items count as the same task
+  similarityThreshold: parseFloat(optionalEnv("DEDUP_SIMILARITY_THRESHOLD", "0.6")),
+  // Embedding cosine similarity (0-1) at which two items count as the same task
+  embeddingThreshold: parseFloat(optionalEnv("DEDUP_EMBEDDING_THRESHOLD", "0.85")),
+} as const;
+
+/**
+ * LLM Usage & Cost Configuration
+ * Prices are USD per 1M tokens; budgets are per UTC day, 0 means unlimited
+ */
+export const usage = {
+  // Price overrides by model family, e.g. {"gpt-4o": {"prompt": 2.5, "completion": 10}}
+  prices: jsonEnv<Record<string, { prompt: number; completion: number }>>("LLM_PRICES", {}),
+  dailyBudgetUsd: parseFloat(optionalEnv("LLM_DAILY_BUDGET_USD", "0")),
+  tenantDailyBudgetUsd: parseFloat(optionalEnv("LLM_TENANT_DAILY_BUDGET_USD", "0")),
+} as const;
+
+/**
+ * Effort Estimation Configuration
+ * Story points for User Stories and Bugs, hours of remaining work for Tasks
+ */
+export const estimation = {
+  // Write proposed estimates to StoryPoints / RemainingWork on created items
+  enabled: optionalEnv("ESTIMATION_ENABLED", "true") === "true",
+  // Recently completed ADO items shown to the model for scale; 0 disables calibration
+  calibrationItems: parseInt(optionalEnv("ESTIMATION_CALIBRATION_ITEMS", "0"), 10),
+} as const;
+
+/**
+ * Deadline Resolution Configuration
+ * Spoken deadlines ("next Friday", "in three days") are resolved against the
+ * meeting start in the requester's Teams timezone
+ */
+export const deadlines = {
+  // IANA timezone used when Teams does not report one
+  timeZone: optionalEnv("DEADLINE_TIMEZONE", "UTC"),
+  // Numeric dates like "10/11" are month/day ("MD") or day/month ("DM")
+  dateOrder: optionalEnv("DEADLINE_DATE_ORDER", "MD").toUpperCase() as DeadlineDateOrder,
+} as const;
+
+/**
+ * Progress Tracking Configuration
+ * Status updates on open items created in earlier meetings of the same series
+ */
+export const progress = {
+  enabled: optionalEnv("PROGRESS_TRACKING_ENABLED", "true") === "true",
+  // Most open items shown to the model (most recently changed first)
+  maxOpenItems: parseInt(optionalEnv("PROGRESS_MAX_OPEN_ITEMS", "50"), 10),
+} as const;
+
+/**
+ * Duplicate Detection Configuration
+ * Action items are compared with open work items in the project before creation
+ */
+export const duplicates = {
+  enabled: optionalEnv("DUPLICATE_CHECK_ENABLED", "true") === "true",
+  // Title similarity (0-1) at which an open work item counts as a likely duplicate
+  similarityThreshold: parseFloat(optionalEnv("DUPLICATE_SIMILARITY_THRESHOLD", "0.6")),
+  // Most open work items compared per run (at most 200, the getWorkItems limit)
+  maxCandidates: parseInt(optionalEnv("DUPLICATE_MAX_CANDIDATES", "200"), 10),
+  // "review" asks on the summary card; "link", "comment" or "create" are applied unattended
+  policy: optionalEnv("DUPLICATE_POLICY", "review").toLowerCase() as DuplicatePolicy,
+} as const;
+
 /**
  * Azure DevOps Configuration (Always Required)
  */
@@ -76,9 +336,22 @@ export const azureDevOps = {
   pat: requireEnv("AZURE_DEVOPS_PAT"),
   project: optionalEnv("AZURE_DEVOPS_PROJECT", "Engineering"),
   defaultWorkItemType: optionalEnv("AZURE_DEVOPS_DEFAULT_TYPE", "Task"),
+  // Work item type per action item type, e.g. {"User Story": "Feature"}; detected from the process otherwise
+  typeMap: jsonEnv<Partial<Record<"Task" | "Bug" | "User Story", string>>>("AZURE_DEVOPS_TYPE_MAP", {}),
+  // JSON file with extra fields, defaults and tags per project and work item type (see README)
+  fieldMappingFile: optionalEnv("AZURE_DEVOPS_FIELD_MAPPING_FILE", ""),
   defaultAreaPath: optionalEnv("AZURE_DEVOPS_AREA_PATH", ""),
+  // Used when team iterations are off or cannot be read
   defaultIterationPath: optionalEnv("AZURE_DEVOPS_ITERATION_PATH", ""),
+  // Place items in the team's current or deadline-matching iteration
+  useTeamIterations: optionalEnv("AZURE_DEVOPS_TEAM_ITERATIONS", "true") === "true",
+  // Team whose iterations are used (default: the project's default team, "<project> Team")
+  team: optionalEnv("AZURE_DEVOPS_TEAM", ""),
   triageUser: optionalEnv("AZURE_DEVOPS_TRIAGE_USER", ""),
+  // States applied by status updates ("done" / "in progress"), overriding the states the
+  // process defines for each work item type; see PROGRESS_TRACKING_ENABLED
+  doneState: optionalEnv("AZURE_DEVOPS_DONE_STATE", ""),
+  activeState: optionalEnv("AZURE_DEVOPS_ACTIVE_STATE", ""),
 } as const;
 
 /**
@@ -124,6 +397,17 @@ export const priorityMap: Record<string, number> = {
   Lowest: 4,
 };
 
+/**
+ * Severity Mapping: Text → Azure DevOps Microsoft.VSTS.Common.Severity values
+ * Bugs without a stated severity use their priority
+ */
+export const severityMap: Record<string, string> = {
+  Critical: "1 - Critical",
+  High: "2 - High",
+  Medium: "3 - Medium",
+  Low: "4 - Low",
+};
+
 /**
  * Validate all configuration at startup
  */
@@ -135,13 +419,108 @@ export function validateConfig(): void {
   }
   
   // Force evaluation of all required configs
-  const configs = [azureAd, azureOpenAI, azureDevOps, bot, server];
+  const configs = [azureAd, azureOpenAI, openAI, llm, extraction, prompts, redaction, injectionGuard, cache, usage, deduplication, estimation, deadlines, progress, duplicates, azureDevOps, bot, server];
+
+  if (!["azure-openai", "openai", "openai-compatible"].includes(llm.provider)) {
+    throw new Error(`❌ Unsupported LLM_PROVIDER: ${llm.provider}`);
+  }
+
+  if (!["llm", "rules"].includes(extraction.mode)) {
+    throw new Error(`❌ Unsupported EXTRACTION_MODE: ${extraction.mode}`);
+  }
+
+  if (!["similarity", "embedding"].includes(deduplication.mode)) {
+    throw new Error(`❌ Unsupported DEDUP_MODE: ${deduplication.mode}`);
+  }
+
+  for (const [kind, pattern] of Object.entries(redaction.patterns)) {
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      throw new Error(`❌ Invalid REDACTION_PATTERNS entry ${kind}: ${(error as Error).message}`);
+    }
+  }
+
+  if (!["none", "memory", "file"].includes(cache.store)) {
+    throw new Error(`❌ Unsupported EXTRACTION_CACHE: ${cache.store}`);
+  }
+
+  if (!["MD", "DM"].includes(deadlines.dateOrder)) {
+    throw new Error(`❌ Unsupported DEADLINE_DATE_ORDER: ${deadlines.dateOrder}`);
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: deadlines.timeZone });
+  } catch {
+    throw new Error(`❌ Invalid DEADLINE_TIMEZONE: ${deadlines.timeZone}`);
+  }
+
+  for (const type of Object.keys(azureDevOps.typeMap)) {
+    if (!["Task", "Bug", "User Story"].includes(type)) {
+      throw new Error(`❌ Unsupported AZURE_DEVOPS_TYPE_MAP type: ${type} (use Task, Bug or User Story)`);
+    }
+  }
+
+  if (!["review", "link", "comment", "create"].includes(duplicates.policy)) {
+    throw new Error(`❌ Unsupported DUPLICATE_POLICY: ${duplicates.policy}`);
+  }
+
+  // Counts and limits; a mistyped value parses as NaN
+  const positive: Record<string, number> = {
+    LLM_MAX_TOKENS: llm.maxTokens,
+    LLM_TIMEOUT_MS: llm.timeoutMs,
+    EXTRACTION_MAX_ATTEMPTS: extraction.maxAttempts,
+    CHUNK_CONCURRENCY: extraction.chunkConcurrency,
+    EXTRACTION_CACHE_MAX_ENTRIES: cache.maxEntries,
+    PROGRESS_MAX_OPEN_ITEMS: progress.maxOpenItems,
+    DUPLICATE_MAX_CANDIDATES: duplicates.maxCandidates,
+    PORT: server.port,
+  };
+  for (const [name, value] of Object.entries(positive)) {
+    if (!Number.isFinite(value) || value < 1) {
+      throw new Error(`❌ Invalid ${name}: ${value} (use a number of at least 1)`);
+    }
+  }
+
+  // Settings where 0 means automatic, unlimited or off
+  const nonNegative: Record<string, number> = {
+    LLM_CONTEXT_WINDOW: llm.contextWindow,
+    CHUNK_MAX_TOKENS: extraction.chunkMaxTokens,
+    CHUNK_OVERLAP_TOKENS: extraction.chunkOverlapTokens,
+    EXTRACTION_CACHE_TTL_SECONDS: cache.ttlSeconds,
+    LLM_DAILY_BUDGET_USD: usage.dailyBudgetUsd,
+    LLM_TENANT_DAILY_BUDGET_USD: usage.tenantDailyBudgetUsd,
+    ESTIMATION_CALIBRATION_ITEMS: estimation.calibrationItems,
+    INJECTION_GUARD_MIN_ITEMS: injectionGuard.minItemsForAssigneeShare,
+    MAX_RETRIES: features.maxRetries,
+    RETRY_DELAY_MS: features.retryDelayMs,
+  };
+  for (const [name, value] of Object.entries(nonNegative)) {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`❌ Invalid ${name}: ${value} (use 0 or a positive number)`);
+    }
+  }
+
+  // Shares and similarity thresholds
+  const ratios: Record<string, number> = {
+    DEDUP_SIMILARITY_THRESHOLD: deduplication.similarityThreshold,
+    DEDUP_EMBEDDING_THRESHOLD: deduplication.embeddingThreshold,
+    DUPLICATE_SIMILARITY_THRESHOLD: duplicates.similarityThreshold,
+    INJECTION_GUARD_MAX_ASSIGNEE_SHARE: injectionGuard.maxAssigneeShare,
+    INJECTION_GUARD_MAX_UNGROUNDED_SHARE: injectionGuard.maxUngroundedShare,
+  };
+  for (const [name, value] of Object.entries(ratios)) {
+    if (!(value >= 0 && value <= 1)) {
+      throw new Error(`❌ Invalid ${name}: ${value} (use a number from 0 to 1)`);
+    }
+  }
   
   console.log(`✅ Configuration validated successfully`);
   console.log(`   Environment: ${server.environment}`);
   console.log(`   Demo Mode: ${isDemo}`);
   console.log(`   Azure DevOps Project: ${azureDevOps.project}`);
-  console.log(`   OpenAI Deployment: ${azureOpenAI.deployment}`);
+  console.log(`   Extraction Mode: ${extraction.mode}`);
+  console.log(`   LLM Provider: ${llm.provider} (${llm.model})`);
 }
 
 /**
@@ -150,11 +529,25 @@ export function validateConfig(): void {
 export const config = {
   azureAd,
   azureOpenAI,
+  openAI,
+  llm,
+  extraction,
+  prompts,
+  redaction,
+  injectionGuard,
+  cache,
+  usage,
+  deduplication,
+  estimation,
+  deadlines,
+  progress,
+  duplicates,
   azureDevOps,
   bot,
   server,
   features,
   priorityMap,
+  severityMap,
   isDemo,
 } as const;
 
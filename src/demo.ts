@@ -15,6 +15,8 @@ import * as fs from "fs";
 import * as path from "path";
 import * as dotenv from "dotenv";
 import * as readline from "readline";
+import { parseVtt, formatTranscript, getSpeakers } from "./utils/transcriptParser";
+import type { MeetingInsight } from "./models/actionItem";
 
 // Load environment variables FIRST
 dotenv.config();
@@ -42,49 +44,6 @@ function divider(): void {
   console.log("\n" + "═".repeat(60) + "\n");
 }
 
-/**
- * Parse VTT format to clean text
- */
-function parseVttToText(vttContent: string): string {
-  if (!vttContent) return "";
-  
-  const lines = vttContent.split("\n");
-  const textLines: string[] = [];
-  let currentSpeaker = "";
-  
-  for (const line of lines) {
-    const trimmed = line.trim();
-    
-    // Skip headers and timestamps
-    if (!trimmed || trimmed === "WEBVTT" || trimmed.startsWith("NOTE")) {
-      continue;
-    }
-    if (trimmed.includes(" --> ")) {
-      continue;
-    }
-    if (/^\d+$/.test(trimmed)) {
-      continue;
-    }
-    
-    // Extract speaker and text
-    const speakerMatch = trimmed.match(/<v ([^>]+)>(.+?)(?:<\/v>)?$/);
-    if (speakerMatch) {
-      const speaker = speakerMatch[1];
-      const text = speakerMatch[2].replace(/<\/v>$/, "");
-      
-      if (speaker !== currentSpeaker) {
-        currentSpeaker = speaker;
-        textLines.push(`\n${speaker}:`);
-      }
-      textLines.push(text);
-    } else if (trimmed.length > 0) {
-      textLines.push(trimmed);
-    }
-  }
-  
-  return textLines.join(" ").replace(/\s+/g, " ").trim();
-}
-
 function promptUser(question: string): Promise<string> {
   return new Promise((resolve) => {
     const rl = readline.createInterface({
@@ -132,23 +91,36 @@ ${colors.reset}
   }
   
   const vttContent = fs.readFileSync(transcriptPath, "utf-8");
-  const transcript = parseVttToText(vttContent);
+  const transcript = parseVtt(vttContent);
   
-  log(colors.green, "✅", "Transcript loaded successfully!");
+  log(
+    colors.green,
+    "✅",
+    `Transcript loaded successfully! (${transcript.utterances.length} utterances, ${getSpeakers(transcript).length} speakers)`
+  );
   console.log(`\n${colors.cyan}--- Transcript Preview ---${colors.reset}`);
-  console.log(transcript.substring(0, 500) + "...\n");
+  console.log(formatTranscript(transcript).substring(0, 500) + "...\n");
 
   // Step 2: Import services (after env is loaded)
   log(colors.blue, "🔌", "Loading services...");
   
   let extractActionItems: typeof import("./services/aiService").extractActionItems;
   let createWorkItems: typeof import("./services/devopsService").createWorkItems;
+  let getUsageSummary: typeof import("./services/usageTracker").getUsageSummary;
+  let redaction: typeof import("./services/redaction");
+  let screenExtraction: typeof import("./services/injectionGuard").screenExtraction;
+  let resolveDeadlines: typeof import("./services/deadlineResolver").resolveDeadlines;
   
   try {
     const aiService = await import("./services/aiService");
     const devopsService = await import("./services/devopsService");
+    const usageTracker = await import("./services/usageTracker");
     extractActionItems = aiService.extractActionItems;
     createWorkItems = devopsService.createWorkItems;
+    getUsageSummary = usageTracker.getUsageSummary;
+    redaction = await import("./services/redaction");
+    screenExtraction = (await import("./services/injectionGuard")).screenExtraction;
+    resolveDeadlines = (await import("./services/deadlineResolver")).resolveDeadlines;
     log(colors.green, "✅", "Services loaded!");
   } catch (error) {
     log(colors.red, "❌", `Failed to load services: ${error}`);
@@ -158,23 +130,68 @@ ${colors.reset}
 
   // Step 3: Extract action items using GPT-4o
   divider();
-  log(colors.blue, "🧠", "STEP 2: Extracting action items with GPT-4o...");
+  const rulesMode = process.env.EXTRACTION_MODE === "rules";
+  log(
+    colors.blue,
+    "🧠",
+    rulesMode
+      ? "STEP 2: Extracting action items with the offline rule-based extractor..."
+      : "STEP 2: Extracting action items with the LLM..."
+  );
   log(colors.magenta, "⏳", "Analyzing transcript for technical tasks...\n");
   
   let actionItemsResult;
   const startTime = Date.now();
   
+  const redacted = redaction.redactTranscript(transcript);
+  const redactedCount = Object.values(redacted.counts).reduce((sum, count) => sum + count, 0);
+  if (redactedCount > 0) {
+    log(colors.cyan, "🔒", `Redacted ${redactedCount} PII/secret value(s) before sending: ${JSON.stringify(redacted.counts)}`);
+  }
+
   try {
-    actionItemsResult = await extractActionItems(transcript);
+    actionItemsResult = await extractActionItems(redacted.transcript, {
+      variables: {
+        meetingSubject: "Sprint Planning (demo)",
+        meetingDate: new Date().toISOString().slice(0, 10),
+        attendees: getSpeakers(transcript),
+      },
+    });
+    actionItemsResult = redaction.restoreResponse(actionItemsResult, redacted);
+    // The demo meeting is happening now, in DEADLINE_TIMEZONE
+    actionItemsResult = {
+      ...actionItemsResult,
+      actionItems: resolveDeadlines(actionItemsResult.actionItems),
+    };
   } catch (error) {
-    log(colors.red, "❌", `Azure OpenAI extraction failed: ${error}`);
-    log(colors.yellow, "💡", "Check your AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_KEY");
+    log(colors.red, "❌", `Action item extraction failed: ${error}`);
+    log(colors.yellow, "💡", "Check your LLM provider settings, or set EXTRACTION_MODE=rules to run offline");
     process.exit(1);
   }
   
   const duration = Date.now() - startTime;
   
   log(colors.green, "✅", `Extracted ${actionItemsResult.actionItems.length} action items in ${duration}ms`);
+  if (actionItemsResult.extractionMethod === "rules" && !rulesMode) {
+    log(colors.yellow, "⚠️", "LLM unavailable - results come from the rule-based fallback extractor");
+  }
+  const usage = getUsageSummary().total;
+  if (usage.calls > 0) {
+    log(
+      colors.cyan,
+      "💰",
+      `LLM usage: ${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens (~$${usage.costUsd.toFixed(4)})`
+    );
+  }
+  if (actionItemsResult.fromCache) {
+    log(colors.cyan, "💾", "Replayed from the extraction cache (set EXTRACTION_CACHE=none to disable)");
+  }
+  if (actionItemsResult.promptVersion) {
+    log(colors.cyan, "📝", `Prompt template: ${actionItemsResult.promptVersion}`);
+  }
+  for (const warning of actionItemsResult.warnings || []) {
+    log(colors.yellow, "⚠️", warning);
+  }
   
   console.log(`\n${colors.cyan}--- Extracted Action Items ---${colors.reset}`);
   actionItemsResult.actionItems.forEach((item, index) => {
@@ -183,9 +200,29 @@ ${colors.bright}${index + 1}. ${item.title}${colors.reset}
    Type: ${item.type}
    Assigned To: ${item.assignedTo || "Unassigned"}
    Priority: ${item.priority}
-   ${item.description ? `Description: ${item.description}` : ""}`);
+   ${item.deadline ? `Deadline: ${item.deadline}${item.deadlineDate ? ` (${item.deadlineDate})` : ""}` : ""}
+   ${item.description ? `Description: ${item.description}` : ""}
+   ${item.estimate ? `Estimate: ${item.estimate.value} ${item.estimate.unit === "hours" ? "hours" : "points"}${item.estimate.rationale ? ` (${item.estimate.rationale})` : ""}` : ""}
+   ${item.bugDetails?.severity ? `Severity: ${item.bugDetails.severity}` : ""}
+   ${item.bugDetails?.reproSteps.length ? `Repro Steps: ${item.bugDetails.reproSteps.join(" → ")}` : ""}
+   ${item.storyDetails?.acceptanceCriteria.length ? `Acceptance Criteria: ${item.storyDetails.acceptanceCriteria.join("; ")}` : ""}
+   ${item.source ? `Source: ${item.source.speaker}${item.source.startTime ? ` @ ${item.source.startTime}` : ""} - "${item.source.quote}"${item.source.verified === false ? " (unverified)" : ""}` : ""}`);
   });
 
+  const minutesSections: Array<[string, MeetingInsight[] | undefined]> = [
+    ["Decisions", actionItemsResult.decisions],
+    ["Risks", actionItemsResult.risks],
+    ["Blockers", actionItemsResult.blockers],
+    ["Open Questions", actionItemsResult.openQuestions],
+  ];
+  for (const [title, insights] of minutesSections) {
+    if (!insights || insights.length === 0) continue;
+    console.log(`\n${colors.cyan}--- ${title} ---${colors.reset}`);
+    insights.forEach((insight) => {
+      console.log(`   • ${insight.text}${insight.owner ? ` (${insight.owner})` : ""}`);
+    });
+  }
+
   if (actionItemsResult.summary) {
     console.log(`\n${colors.cyan}--- AI Summary ---${colors.reset}`);
     console.log(actionItemsResult.summary);
@@ -194,6 +231,14 @@ ${colors.bright}${index + 1}. ${item.title}${colors.reset}
   // Step 4: Ask about creating work items
   divider();
   log(colors.blue, "📝", "STEP 3: Create work items in Azure DevOps");
+
+  const screening = screenExtraction(transcript, actionItemsResult);
+  if (screening.suspicious) {
+    log(colors.yellow, "🛡️", "Review before creating: the transcript may contain instructions aimed at the assistant, or the results look unusual");
+    for (const reason of screening.reasons) {
+      console.log(`   • ${reason}`);
+    }
+  }
   
   const askUser = await promptUser(`\n${colors.yellow}Do you want to create these ${actionItemsResult.actionItems.length} work items in Azure DevOps? (y/n): ${colors.reset}`);
   
@@ -218,14 +263,17 @@ ${colors.bright}${index + 1}. ${item.title}${colors.reset}
   }
   
   console.log(`\n${colors.cyan}--- Created Work Items ---${colors.reset}`);
-  workItemResults.forEach((wi) => {
+  workItemResults.created.forEach((wi) => {
     console.log(`${colors.green}✅ #${wi.id}: ${wi.title}${colors.reset}`);
     console.log(`   ${colors.blue}${wi.url}${colors.reset}`);
   });
+  workItemResults.failed.forEach((failure) => {
+    console.log(`${colors.red}❌ ${failure.task.title}: ${failure.error}${colors.reset}`);
+  });
 
   // Summary
   divider();
-  printSummary(actionItemsResult.actionItems, workItemResults);
+  printSummary(actionItemsResult.actionItems, workItemResults.created);
 }
 
 interface ActionItem {
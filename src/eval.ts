@@ -0,0 +1,120 @@
+/**
+ * ActionAgent Extraction Evaluation
+ *
+ * Runs the golden transcripts in evals/cases through extraction and reports
+ * precision, recall, assignee accuracy and priority accuracy.
+ * See evals/README.md.
+ *
+ * Usage: npm run eval -- [--record] [--template <name>] [--baseline <report.json>] [--out <report.json>]
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment variables FIRST
+dotenv.config();
+
+// Score what the model produced: no M365, no rule-based fallback, no cached results
+process.env.DEMO_MODE = "true";
+process.env.EXTRACTION_FALLBACK_TO_RULES = "false";
+process.env.EXTRACTION_CACHE = "none";
+
+// Replaying recordings calls neither the model nor Azure DevOps, so their
+// credentials are only needed with --record
+if (!process.argv.includes("--record")) {
+  const placeholders: Record<string, string> = {
+    AZURE_OPENAI_ENDPOINT: "https://replay.openai.azure.com/",
+    AZURE_OPENAI_KEY: "replay-key",
+    OPENAI_API_KEY: "replay-key",
+    OPENAI_BASE_URL: "http://localhost/v1",
+    AZURE_DEVOPS_ORG_URL: "https://dev.azure.com/replay",
+    AZURE_DEVOPS_PAT: "replay-pat",
+  };
+  for (const [name, value] of Object.entries(placeholders)) {
+    process.env[name] = process.env[name] || value;
+  }
+}
+
+const EVALS_DIR = path.join(__dirname, "..", "evals");
+
+interface EvalArgs {
+  record: boolean;
+  templateName?: string;
+  baseline?: string;
+  out?: string;
+}
+
+function parseArgs(argv: string[]): EvalArgs {
+  const args: EvalArgs = { record: false };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--record":
+        args.record = true;
+        break;
+      case "--template":
+        args.templateName = argv[++i];
+        break;
+      case "--baseline":
+        args.baseline = argv[++i];
+        break;
+      case "--out":
+        args.out = argv[++i];
+        break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+  return args;
+}
+
+async function runEval(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  // Import services after the environment is set up
+  const { createLlmProvider } = await import("./services/llmProvider");
+  const { setLlmProvider } = await import("./services/aiService");
+  const evaluation = await import("./services/evaluation");
+
+  const recordingsDir = path.join(EVALS_DIR, "recordings");
+  setLlmProvider(
+    new evaluation.RecordedLlmProvider(recordingsDir, args.record ? createLlmProvider() : undefined)
+  );
+
+  const cases = evaluation.loadEvaluationCases();
+  console.log(
+    `Evaluating ${cases.length} case(s) ${args.record ? "with the live model (recording)" : "from recordings"}...\n`
+  );
+
+  const report = await evaluation.runEvaluation(cases, { templateName: args.templateName });
+  const baseline = args.baseline
+    ? (JSON.parse(fs.readFileSync(args.baseline, "utf-8")) as typeof report)
+    : undefined;
+
+  console.log(evaluation.formatEvaluationTable(report, baseline));
+  for (const result of report.cases) {
+    if (result.error) console.log(`\n❌ ${result.name}: ${result.error}`);
+    if (result.missed.length) console.log(`\n${result.name} missed: ${result.missed.join("; ")}`);
+    if (result.unexpected.length) console.log(`${result.name} unexpected: ${result.unexpected.join("; ")}`);
+  }
+
+  const out =
+    args.out ||
+    path.join(
+      EVALS_DIR,
+      "results",
+      `${report.startedAt.replace(/[:.]/g, "-")}_${report.promptVersions.join("+") || "none"}.json`
+    );
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, `${JSON.stringify(report, null, 2)}\n`, "utf-8");
+  console.log(`\nReport written to ${out}`);
+
+  if (report.cases.some((result) => result.error)) {
+    process.exitCode = 1;
+  }
+}
+
+runEval().catch((error) => {
+  console.error(`❌ Evaluation failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
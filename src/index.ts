@@ -4,7 +4,7 @@
  * 
  * Stack:
  * - Microsoft Graph API for meeting transcripts
- * - Azure OpenAI (GPT-4o) for intelligent task extraction
+ * - Azure OpenAI / OpenAI / OpenAI-compatible LLMs for intelligent task extraction
  * - Azure DevOps API for work item creation
  * - Bot Framework SDK for Teams integration
  */
@@ -18,10 +18,14 @@ import {
 import { ActionAgentBot } from "./teamsBot";
 import { config, validateConfig } from "./config";
 import { telemetry } from "./utils/telemetry";
+import { getUsageSummary } from "./services/usageTracker";
+import { loadFieldMapping } from "./services/fieldMapping";
 
 // Validate configuration at startup
 try {
   validateConfig();
+  // A broken mapping file would otherwise only show up when items are created
+  loadFieldMapping();
 } catch (error) {
   console.error(error instanceof Error ? error.message : error);
   process.exit(1);
@@ -117,9 +121,9 @@ server.get("/live", (req, res, next) => {
   next();
 });
 
-// Metrics endpoint (for monitoring)
+// Metrics endpoint (for monitoring), with today's LLM token usage and cost
 server.get("/metrics", (req, res, next) => {
-  res.send(200, telemetry.getMetricsSummary());
+  res.send(200, { ...telemetry.getMetricsSummary(), usage: getUsageSummary() });
   next();
 });
 
@@ -133,7 +137,7 @@ server.listen(config.server.port, () => {
 ║   Environment: ${config.server.environment.padEnd(42)}║
 ║   Port: ${String(config.server.port).padEnd(50)}║
 ║   DevOps Project: ${config.azureDevOps.project.padEnd(38)}║
-║   OpenAI Model: ${config.azureOpenAI.deployment.padEnd(40)}║
+║   LLM Model: ${`${config.llm.model} (${config.llm.provider})`.padEnd(43)}║
 ║                                                              ║
 ║   Endpoints:                                                 ║
 ║   • Bot:     http://localhost:${config.server.port}/api/messages              ║
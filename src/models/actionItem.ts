@@ -1,3 +1,115 @@
+/**
+ * Where in the transcript an action item came from
+ */
+export interface ActionItemSource {
+  speaker: string;
+  /** Cue start time as it appears in the transcript (e.g. "00:00:12.500") */
+  startTime?: string;
+  /** Cue end time as it appears in the transcript */
+  endTime?: string;
+  /** Verbatim words from the transcript supporting the item */
+  quote: string;
+  /** Whether the quote was found verbatim in the transcript */
+  verified?: boolean;
+}
+
+/**
+ * Bug severity as discussed in the meeting (mapped via severityMap)
+ */
+export type BugSeverity = "Critical" | "High" | "Medium" | "Low";
+
+/**
+ * Reproduction details for a Bug
+ */
+export interface BugDetails {
+  reproSteps: string[];
+  expectedBehavior?: string;
+  actualBehavior?: string;
+  severity?: BugSeverity;
+}
+
+/**
+ * "As a <role>, I want <goal> so that <benefit>" and acceptance criteria for a User Story
+ */
+export interface StoryDetails {
+  role?: string;
+  goal?: string;
+  benefit?: string;
+  acceptanceCriteria: string[];
+}
+
+/**
+ * Proposed effort: story points for User Stories and Bugs, hours for Tasks
+ */
+export interface EffortEstimate {
+  value: number;
+  unit: "storyPoints" | "hours";
+  /** Why the model chose this size, based on how the work was discussed */
+  rationale?: string;
+}
+
+/**
+ * A completed work item with its actual effort, used to calibrate estimates
+ */
+export interface EstimateReference {
+  title: string;
+  type: string;
+  value: number;
+  unit: EffortEstimate["unit"];
+}
+
+/**
+ * A team iteration (sprint) from Azure DevOps
+ */
+export interface Iteration {
+  name: string;
+  /** Iteration path, e.g. "Engineering\Sprint 42" */
+  path: string;
+  /** ISO dates (YYYY-MM-DD), both inclusive */
+  startDate: string;
+  finishDate: string;
+}
+
+/**
+ * An open ActionAgent work item from an earlier meeting in the same series
+ */
+export interface OpenWorkItem {
+  id: number;
+  title: string;
+  type: string;
+  state: string;
+  assignedTo?: string;
+}
+
+/**
+ * A work item created by an earlier run for the same meeting
+ */
+export interface MeetingWorkItem extends OpenWorkItem {
+  url: string;
+  /** Fingerprint tag of the action item it was created from (see formatFingerprintTag) */
+  fingerprint?: string;
+}
+
+/**
+ * Progress reported in a meeting on an open work item
+ */
+export type ProgressStatus = "done" | "inProgress" | "blocked";
+
+/**
+ * A proposed state change or comment on an existing work item
+ */
+export interface StatusUpdate {
+  workItemId: number;
+  /** Title of the work item, filled in from the open items */
+  title?: string;
+  /** Work item type, filled in from the open items; picks the state to move to */
+  type?: string;
+  status: ProgressStatus;
+  /** What was said about the item, in one sentence */
+  comment?: string;
+  source?: ActionItemSource;
+}
+
 /**
  * ActionItem Model - Represents a task extracted from meeting transcripts
  */
@@ -7,15 +119,82 @@ export interface ActionItem {
   type: "Task" | "Bug" | "User Story";
   priority: "High" | "Medium" | "Low";
   description?: string;
+  /** Deadline as it was said, e.g. "next Friday" */
   deadline?: string;
+  /** The deadline resolved against the meeting date, as an ISO date (YYYY-MM-DD) */
+  deadlineDate?: string;
+  source?: ActionItemSource;
+  /** Only set on Bugs */
+  bugDetails?: BugDetails;
+  /** Only set on User Stories */
+  storyDetails?: StoryDetails;
+  estimate?: EffortEstimate;
+  /** Prompt template that produced the item, e.g. "ops@1.2.0" */
+  promptVersion?: string;
+}
+
+/**
+ * A decision, risk, blocker or open question from the meeting
+ */
+export interface MeetingInsight {
+  text: string;
+  /** Who decided, raised the risk, is blocked, or is expected to answer */
+  owner?: string;
+  source?: ActionItemSource;
+}
+
+/**
+ * Meeting minutes beyond the task list
+ */
+export interface MeetingMinutes {
+  decisions?: MeetingInsight[];
+  risks?: MeetingInsight[];
+  blockers?: MeetingInsight[];
+  openQuestions?: MeetingInsight[];
 }
 
 /**
- * Response from AI service containing extracted action items
+ * Response from AI service containing extracted action items and minutes
  */
-export interface ActionItemsResponse {
+export interface ActionItemsResponse extends MeetingMinutes {
   actionItems: ActionItem[];
   summary?: string;
+  /** How the items were extracted ("rules" when the offline extractor was used) */
+  extractionMethod?: "llm" | "rules";
+  /** Prompt template used for LLM extraction, e.g. "default@1.0.0" */
+  promptVersion?: string;
+  /** Problems that did not stop extraction (e.g. a transcript chunk that failed) */
+  warnings?: string[];
+  /** Whether the result was replayed from the extraction cache */
+  fromCache?: boolean;
+  /** Progress on open items from earlier meetings (instead of duplicate items) */
+  statusUpdates?: StatusUpdate[];
+}
+
+/**
+ * How a likely duplicate is handled: create the item and link it to the
+ * existing one, comment on the existing one instead, or create it anyway
+ */
+export type DuplicateResolution = "link" | "comment" | "create";
+
+/**
+ * An open Azure DevOps work item that may already cover an action item
+ */
+export interface DuplicateCandidate extends OpenWorkItem {
+  url: string;
+  /** Title similarity (0-1), including the bonus for the same meeting series */
+  similarity: number;
+}
+
+/**
+ * An action item held back because the backlog likely has it already
+ */
+export interface DuplicateMatch {
+  task: ActionItem;
+  /** Best match first */
+  candidates: DuplicateCandidate[];
+  /** How the match was handled; unset while waiting for a choice on the card */
+  resolution?: DuplicateResolution;
 }
 
 /**
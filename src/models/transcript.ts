@@ -0,0 +1,22 @@
+/**
+ * Transcript Model - Structured meeting transcript shared by all services
+ */
+
+/**
+ * A single spoken cue from the meeting
+ */
+export interface Utterance {
+  speaker: string;
+  /** Start offset from the beginning of the meeting, in seconds */
+  start: number;
+  /** End offset from the beginning of the meeting, in seconds */
+  end: number;
+  text: string;
+}
+
+/**
+ * A parsed meeting transcript
+ */
+export interface Transcript {
+  utterances: Utterance[];
+}
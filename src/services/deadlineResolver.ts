@@ -0,0 +1,311 @@
+/**
+ * Deadline Resolution
+ * Turns spoken deadlines ("by Friday", "in three days", "end of quarter")
+ * into ISO dates, counted from when the meeting happened in the requester's
+ * timezone rather than from when the transcript was processed
+ *
+ * Supported phrases:
+ * - today, tonight, EOD / end of day, tomorrow, the day after tomorrow
+ * - weekday names: "Friday" is the next Friday, "next Friday" the Friday of next week
+ * - "in three days", "in 2 weeks", "within 5 business days", "in a month"
+ * - end of the week, next week, month, quarter ("Q3"), year
+ * - end of this or the next sprint, from the team's iterations when known
+ * - month/day forms: "Oct 23", "23rd of October", "10/23", "2026-10-23", "the 15th"
+ *
+ * Business days skip Saturdays and Sundays; public holidays are not known.
+ */
+
+import { config, DeadlineDateOrder } from "../config";
+import { ActionItem, Iteration } from "../models/actionItem";
+import { telemetry } from "../utils/telemetry";
+
+/**
+ * What a deadline is counted from
+ */
+export interface DeadlineReference {
+  /** When the meeting started (default: now) */
+  date?: Date | string;
+  /** IANA timezone of the requester, e.g. "Europe/Berlin" (default: DEADLINE_TIMEZONE) */
+  timeZone?: string;
+  /** How "10/11" is read (default: DEADLINE_DATE_ORDER) */
+  dateOrder?: DeadlineDateOrder;
+  /** Team iterations, so sprint deadlines use real finish dates */
+  iterations?: Iteration[];
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Monday first, matching how people talk about "next week"
+const WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, fourteen: 14, fifteen: 15,
+  twenty: 20, thirty: 30, "a couple of": 2, "a couple": 2, "a few": 3,
+};
+
+const MONTH_NAME = "(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?";
+// "10/23", "10/23/26" or dotted "23.10." / "23.10.2026"; a single dot is a decimal
+// ("1.5 weeks", "version 2.1"), and a number followed by a unit is not a date
+const NUMERIC_DATE =
+  /\b(\d{1,2})(?:\/(\d{1,2})(?:\/(\d{2}|\d{4}))?|\.(\d{1,2})\.(\d{2}|\d{4})?)(?!\d|[./]\d)(?!\s*(?:days?|weeks?|months?|hours?|points?)\b)/;
+
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join("|")})`;
+const ORDINAL = "(\\d{1,2})(?:st|nd|rd|th)?";
+const YEAR = "(?:,?\\s+(\\d{4}))?";
+
+/**
+ * Resolves a spoken deadline to an ISO date (YYYY-MM-DD) in the reference timezone
+ * @returns undefined when the phrase names no recognizable date
+ */
+export function resolveDeadline(
+  phrase: string,
+  reference: DeadlineReference = {}
+): string | undefined {
+  const text = phrase.toLowerCase().replace(/\s+/g, " ").trim();
+  const today = localDate(reference);
+  const resolved =
+    resolveSprint(text, today, reference.iterations || []) ??
+    resolveFrom(text, today, reference.dateOrder ?? config.deadlines.dateOrder);
+  return resolved ? formatDate(resolved) : undefined;
+}
+
+/**
+ * Sets deadlineDate on every item whose deadline can be resolved
+ * Returns new items; the raw deadline phrase is kept as it was said
+ */
+export function resolveDeadlines(
+  items: ActionItem[],
+  reference: DeadlineReference = {}
+): ActionItem[] {
+  return items.map((item) => {
+    if (!item.deadline) {
+      return item;
+    }
+    const deadlineDate = resolveDeadline(item.deadline, reference);
+    if (!deadlineDate) {
+      telemetry.debug("Could not resolve deadline", { deadline: item.deadline });
+    }
+    return { ...item, deadlineDate };
+  });
+}
+
+/**
+ * "End of sprint" and "next sprint" as the finish date of the current or next
+ * iteration; without iterations, this sprint is assumed to end on Friday
+ */
+function resolveSprint(text: string, today: Date, iterations: Iteration[]): Date | undefined {
+  const match = text.match(
+    /\b(?:(?:end of|by) (?:the )?)?(this|current|next) sprint\b|\b(?:end of (?:the )?sprint|sprint end)\b/
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  const next = match[1] === "next";
+  const day = formatDate(today);
+  const sorted = [...iterations].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const current = sorted.findIndex((iteration) => iteration.finishDate >= day);
+  if (current !== -1) {
+    const iteration = sorted[current + (next ? 1 : 0)];
+    return iteration ? new Date(`${iteration.finishDate}T00:00:00Z`) : undefined;
+  }
+  if (next) {
+    return undefined;
+  }
+
+  // Sprint boundaries are unknown here; assume sprints end on a Friday
+  const ahead = (4 - weekdayIndex(today) + 7) % 7;
+  return addDays(today, ahead === 0 ? 7 : ahead);
+}
+
+/**
+ * Tries each phrase form in turn, most specific first
+ */
+function resolveFrom(text: string, today: Date, dateOrder: DeadlineDateOrder): Date | undefined {
+  let match: RegExpMatchArray | null;
+
+  // Explicit dates
+  if ((match = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/))) {
+    return civilDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+  if ((match = text.match(NUMERIC_DATE))) {
+    const [first, second] = [Number(match[1]), Number(match[2] || match[4])];
+    const [month, day] = dateOrder === "DM" ? [second, first] : [first, second];
+    return withYear(today, month, day, match[3] || match[5]);
+  }
+  if ((match = text.match(new RegExp(`\\b${MONTH_NAME}\\s+(?:the\\s+)?${ORDINAL}\\b${YEAR}`)))) {
+    return withYear(today, MONTHS.indexOf(match[1]) + 1, Number(match[2]), match[3]);
+  }
+  if ((match = text.match(new RegExp(`\\b${ORDINAL}\\s+(?:of\\s+)?${MONTH_NAME}(?:\\b|$)${YEAR}`)))) {
+    return withYear(today, MONTHS.indexOf(match[2]) + 1, Number(match[1]), match[3]);
+  }
+
+  // Relative counts: "in three days", "within 5 business days"
+  const relative = new RegExp(
+    `\\b(?:in|within|next)\\s+${COUNT}\\s+(business |working )?(day|week|month)s?\\b`
+  );
+  if ((match = text.match(relative))) {
+    const count = /^\d+$/.test(match[1]) ? Number(match[1]) : NUMBER_WORDS[match[1]];
+    if (match[2]) return addBusinessDays(today, match[3] === "week" ? count * 5 : count);
+    if (match[3] === "week") return addDays(today, count * 7);
+    if (match[3] === "month") return addMonths(today, count);
+    return addDays(today, count);
+  }
+
+  // "Tomorrow" first so "end of day tomorrow" is not read as today
+  if (/\bday after tomorrow\b/.test(text)) return addDays(today, 2);
+  if (/\b(?:tomorrow|tmrw)\b/.test(text)) return addDays(today, 1);
+  if (
+    /\b(?:today|tonight|eod|cob|end of (?:the )?(?:business )?day|close of business|this (?:morning|afternoon|evening))\b/.test(text)
+  ) {
+    return today;
+  }
+
+  // Weekdays: "Friday", "this Friday", "next Friday", "Friday next week"
+  const weekday =
+    /\b(?:(this|coming|next)\s+)?(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b(\s+(?:of\s+)?next week)?/;
+  if ((match = text.match(weekday))) {
+    const target = WEEKDAYS.indexOf(match[2]);
+    if (match[1] === "next" || match[3]) {
+      return addDays(startOfWeek(today), 7 + target);
+    }
+    const ahead = (target - weekdayIndex(today) + 7) % 7;
+    return addDays(today, ahead === 0 && match[1] !== "this" ? 7 : ahead);
+  }
+
+  // Periods
+  if ((match = text.match(/\b(?:end of (?:the )?)?(this|next) week\b|\bend of (?:the )?week\b/))) {
+    const friday = addDays(startOfWeek(today), 4 + (match[1] === "next" ? 7 : 0));
+    // Said at the weekend, "end of the week" means the coming Friday
+    return friday < today ? addDays(friday, 7) : friday;
+  }
+  if ((match = text.match(/\b(?:end of (?:the )?)?(this|next) month\b|\bend of (?:the )?month\b/))) {
+    return endOfMonth(today, match[1] === "next" ? 1 : 0);
+  }
+  if ((match = text.match(/\bq([1-4])\b/))) {
+    // Day 0 of the month after the quarter is its last day
+    const month = Number(match[1]) * 3 + 1;
+    const quarterEnd = civilDate(today.getUTCFullYear(), month, 0);
+    return quarterEnd && quarterEnd < today
+      ? civilDate(today.getUTCFullYear() + 1, month, 0)
+      : quarterEnd;
+  }
+  if ((match = text.match(/\b(?:end of (?:the )?)?(this|next) quarter\b|\bend of (?:the )?quarter\b/))) {
+    const quarter = Math.floor(today.getUTCMonth() / 3) + (match[1] === "next" ? 1 : 0);
+    return civilDate(today.getUTCFullYear(), quarter * 3 + 3 + 1, 0);
+  }
+  if ((match = text.match(/\b(?:end of (?:the )?)?(this|next) year\b|\bend of (?:the )?year\b/))) {
+    return civilDate(today.getUTCFullYear() + (match[1] === "next" ? 1 : 0), 12, 31);
+  }
+
+  // "the 15th": this month, or next month once it has passed
+  if ((match = text.match(/\bthe (\d{1,2})(?:st|nd|rd|th)\b/))) {
+    const day = Number(match[1]);
+    const thisMonth = civilDate(today.getUTCFullYear(), today.getUTCMonth() + 1, day);
+    return thisMonth && thisMonth >= today
+      ? thisMonth
+      : civilDate(today.getUTCFullYear(), today.getUTCMonth() + 2, day);
+  }
+
+  return undefined;
+}
+
+/**
+ * The reference date's calendar day in its timezone, as a UTC-midnight Date
+ */
+function localDate(reference: DeadlineReference): Date {
+  const date = reference.date ? new Date(reference.date) : new Date();
+  const instant = isNaN(date.getTime()) ? new Date() : date;
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: validTimeZone(reference.timeZone),
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return new Date(Date.UTC(part("year"), part("month") - 1, part("day")));
+}
+
+/**
+ * The requested timezone, or DEADLINE_TIMEZONE when it is missing or unknown
+ */
+function validTimeZone(timeZone: string | undefined): string {
+  if (timeZone) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return timeZone;
+    } catch {
+      telemetry.debug("Unknown timezone, using DEADLINE_TIMEZONE", { timeZone });
+    }
+  }
+  return config.deadlines.timeZone;
+}
+
+/**
+ * A calendar date; day 0 is the last day of the previous month
+ * @returns undefined for impossible dates such as February 30
+ */
+function civilDate(year: number, month: number, day: number): Date | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (day > 0 && (date.getUTCMonth() !== ((month - 1) % 12 + 12) % 12 || date.getUTCDate() !== day)) {
+    return undefined;
+  }
+  return date;
+}
+
+/**
+ * A month and day in the given year, or the next occurrence after today
+ */
+function withYear(today: Date, month: number, day: number, year?: string): Date | undefined {
+  if (year) {
+    return civilDate(year.length === 2 ? 2000 + Number(year) : Number(year), month, day);
+  }
+  const thisYear = civilDate(today.getUTCFullYear(), month, day);
+  return thisYear && thisYear < today ? civilDate(today.getUTCFullYear() + 1, month, day) : thisYear;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function addBusinessDays(date: Date, days: number): Date {
+  let result = date;
+  for (let added = 0; added < days; ) {
+    result = addDays(result, 1);
+    if (weekdayIndex(result) < 5) added++;
+  }
+  return result;
+}
+
+/**
+ * Same day of the month, clamped to the month's last day
+ */
+function addMonths(date: Date, months: number): Date {
+  const last = endOfMonth(date, months);
+  return date.getUTCDate() < last.getUTCDate()
+    ? new Date(Date.UTC(last.getUTCFullYear(), last.getUTCMonth(), date.getUTCDate()))
+    : last;
+}
+
+function endOfMonth(date: Date, monthsAhead: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + monthsAhead + 1, 0));
+}
+
+/**
+ * Monday of the date's week
+ */
+function startOfWeek(date: Date): Date {
+  return addDays(date, -weekdayIndex(date));
+}
+
+/**
+ * 0 for Monday through 6 for Sunday
+ */
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,185 @@
+/**
+ * Action Item Deduplication
+ * Merges action items that describe the same task in different words,
+ * e.g. "Fix login timeout" and "Fix the timeout on login page", and
+ * repeated decisions, risks, blockers and open questions
+ *
+ * Modes (DEDUP_MODE):
+ * - "similarity": token overlap / fuzzy title matching (default, no model calls)
+ * - "embedding": cosine similarity of provider embeddings of title + description;
+ *   falls back to "similarity" when the provider cannot embed
+ */
+
+import { config, DeduplicationMode } from "../config";
+import { ActionItem, MeetingInsight, MeetingMinutes } from "../models/actionItem";
+import { telemetry } from "../utils/telemetry";
+import { cosineSimilarity, textSimilarity } from "../utils/similarity";
+import { LlmProvider } from "./llmProvider";
+
+/**
+ * Deduplication settings (defaults come from config.deduplication)
+ */
+export interface DeduplicationOptions {
+  mode?: DeduplicationMode;
+  similarityThreshold?: number;
+  embeddingThreshold?: number;
+  /** Provider used for embeddings in "embedding" mode */
+  provider?: LlmProvider;
+}
+
+/**
+ * Merges duplicate action items, keeping meeting order
+ * Items must be in the order they were discussed: later mentions update
+ * earlier ones (see mergeActionItems)
+ */
+export async function deduplicateActionItems(
+  items: ActionItem[],
+  options: DeduplicationOptions = {}
+): Promise<ActionItem[]> {
+  if (items.length < 2) {
+    return items;
+  }
+
+  const mode = options.mode ?? config.deduplication.mode;
+  let isDuplicate: (a: number, b: number) => boolean;
+
+  if (mode === "embedding") {
+    const vectors = await embedItems(items, options.provider);
+    const threshold = options.embeddingThreshold ?? config.deduplication.embeddingThreshold;
+    isDuplicate = vectors
+      ? (a, b) => cosineSimilarity(vectors[a], vectors[b]) >= threshold
+      : titleMatcher(items, options);
+  } else {
+    isDuplicate = titleMatcher(items, options);
+  }
+
+  const merged = mergeGroups(items, isDuplicate, mergeActionItems);
+  if (merged.length < items.length) {
+    telemetry.info("Merged duplicate action items", {
+      mode,
+      before: items.length,
+      after: merged.length,
+    });
+    telemetry.trackMetric("AI.DuplicatesMerged", items.length - merged.length, "count");
+  }
+  return merged;
+}
+
+/**
+ * Combines two mentions of the same task into one item
+ * The earlier mention keeps its title, type and source; the later mention
+ * wins for assignee (unless unassigned), deadline, priority and estimate,
+ * since those are what a meeting typically revisits. Distinct descriptions are combined.
+ */
+export function mergeActionItems(earlier: ActionItem, later: ActionItem): ActionItem {
+  return {
+    ...earlier,
+    assignedTo:
+      later.assignedTo && later.assignedTo !== "Unassigned"
+        ? later.assignedTo
+        : earlier.assignedTo,
+    deadline: later.deadline || earlier.deadline,
+    priority: later.priority || earlier.priority,
+    description: mergeDescriptions(earlier.description, later.description),
+    source: earlier.source || later.source,
+    bugDetails: earlier.bugDetails || later.bugDetails,
+    storyDetails: earlier.storyDetails || later.storyDetails,
+    estimate: later.estimate || earlier.estimate,
+  };
+}
+
+/**
+ * Combines the minutes of several chunks (in meeting order), merging
+ * entries whose text is similar; the first mention keeps its citation
+ */
+export function deduplicateMinutes(
+  parts: MeetingMinutes[],
+  threshold: number = config.deduplication.similarityThreshold
+): Required<MeetingMinutes> {
+  const merge = (insights: MeetingInsight[]) =>
+    mergeGroups(
+      insights,
+      (a, b) => textSimilarity(insights[a].text, insights[b].text) >= threshold,
+      (earlier, later) => ({ ...earlier, owner: earlier.owner || later.owner })
+    );
+
+  return {
+    decisions: merge(parts.flatMap((part) => part.decisions || [])),
+    risks: merge(parts.flatMap((part) => part.risks || [])),
+    blockers: merge(parts.flatMap((part) => part.blockers || [])),
+    openQuestions: merge(parts.flatMap((part) => part.openQuestions || [])),
+  };
+}
+
+/**
+ * Title matcher for "similarity" mode
+ */
+function titleMatcher(
+  items: ActionItem[],
+  options: DeduplicationOptions
+): (a: number, b: number) => boolean {
+  const threshold = options.similarityThreshold ?? config.deduplication.similarityThreshold;
+  return (a, b) => textSimilarity(items[a].title, items[b].title) >= threshold;
+}
+
+/**
+ * Greedy single-pass grouping: each item joins the first earlier group that
+ * has a matching member, otherwise it starts a new group
+ */
+function mergeGroups<T>(
+  items: T[],
+  isDuplicate: (a: number, b: number) => boolean,
+  merge: (earlier: T, later: T) => T
+): T[] {
+  const groups: Array<{ members: number[]; item: T }> = [];
+
+  items.forEach((item, index) => {
+    const group = groups.find((g) => g.members.some((member) => isDuplicate(member, index)));
+    if (group) {
+      group.members.push(index);
+      group.item = merge(group.item, item);
+    } else {
+      groups.push({ members: [index], item });
+    }
+  });
+
+  return groups.map((group) => group.item);
+}
+
+/**
+ * Embeds "title. description" for every item
+ * @returns undefined when the provider has no embedding support or the call fails
+ */
+async function embedItems(
+  items: ActionItem[],
+  provider: LlmProvider | undefined
+): Promise<number[][] | undefined> {
+  if (!provider?.embed) {
+    telemetry.warn("Embedding deduplication unavailable, using title similarity", {
+      provider: provider?.name,
+    });
+    return undefined;
+  }
+
+  try {
+    const texts = items.map((item) =>
+      item.description ? `${item.title}. ${item.description}` : item.title
+    );
+    const vectors = await provider.embed(texts);
+    return vectors.length === items.length ? vectors : undefined;
+  } catch (error) {
+    telemetry.warn("Embedding request failed, using title similarity", {
+      error: String(error),
+    });
+    return undefined;
+  }
+}
+
+function mergeDescriptions(earlier?: string, later?: string): string | undefined {
+  const first = earlier?.trim();
+  const second = later?.trim();
+  if (!first) return second || earlier;
+  if (!second || first.includes(second)) return first;
+  if (second.includes(first)) return second;
+  return `${first}\n\n${second}`;
+}
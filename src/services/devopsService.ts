@@ -3,22 +3,52 @@
  * Handles work item creation in Azure DevOps
  * 
  * Features:
- * - Configurable project, area, and iteration paths
+ * - Configurable project and area path; iteration from the team's real iterations
+ * - Work item types from the project's process (Agile, Scrum, CMMI, Basic),
+ *   with fields fitted to each type and required fields checked before creation,
+ *   and each type's own Completed / In Progress states for status updates
+ * - Repro steps and severity on Bugs, acceptance criteria on User Stories
+ * - Effort estimates (story points / remaining work) and calibration history
+ * - Meeting series tags, open items per series and status updates on them
+ * - Duplicate search against open work items, linking or commenting instead
+ * - Meeting and item fingerprint tags, so earlier runs for a meeting can be found
+ * - Project field mapping (custom fields, defaults, tags) applied before creation
  * - Identity resolution integration
- * - Batch work item creation with rate limiting
+ * - Batch work item creation ($batch) reporting each item's success or failure
  * - Comprehensive error handling
  */
 
 import * as azdev from "azure-devops-node-api";
-import { config, priorityMap } from "../config";
-import { ActionItem, WorkItemResult } from "../models/actionItem";
+import { WorkItemTypeFieldsExpandLevel } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces";
+import { createHash } from "crypto";
+import { config, priorityMap, severityMap } from "../config";
+import {
+  ActionItem,
+  ActionItemSource,
+  DuplicateCandidate,
+  DuplicateMatch,
+  DuplicateResolution,
+  EffortEstimate,
+  EstimateReference,
+  Iteration,
+  MeetingWorkItem,
+  OpenWorkItem,
+  StatusUpdate,
+  StoryDetails,
+  WorkItemResult,
+} from "../models/actionItem";
 import { resolveUser, getDevOpsIdentity, ResolutionResult } from "./identityService";
+import { resolveDeadline } from "./deadlineResolver";
+import { MappingInput, resolveFieldMapping } from "./fieldMapping";
 import {
   createCorrelationContext,
   withErrorHandling,
+  safeJsonParse,
   ActionAgentError,
 } from "../utils/errorHandling";
+import { mapWithConcurrency } from "../utils/concurrency";
 import { telemetry } from "../utils/telemetry";
+import { contentTokens, textSimilarity } from "../utils/similarity";
 
 // Type for patch document operations
 interface PatchOperation {
@@ -32,27 +62,177 @@ interface PatchOperation {
 const authHandler = azdev.getPersonalAccessTokenHandler(config.azureDevOps.pat);
 const connection = new azdev.WebApi(config.azureDevOps.orgUrl, authHandler);
 
-// Rate limiting: max concurrent work item creations
+// Rate limiting: max concurrent identity lookups, and work item creations without $batch
 const MAX_CONCURRENT = 5;
-const DELAY_BETWEEN_BATCHES_MS = 500;
+// Requests per $batch call (the service limit is 200)
+const MAX_BATCH_SIZE = 200;
+// The work item $batch endpoint is documented for this version
+const BATCH_API_VERSION = "4.1";
+// Responses meaning the server has no $batch endpoint (e.g. older Azure DevOps Server)
+const BATCH_UNSUPPORTED_STATUS_CODES = [404, 405, 501];
+
+// States that end ActionAgent's interest in a work item
+const CLOSED_STATES = ["Closed", "Done", "Resolved", "Removed"];
+
+// Team iterations change rarely; they are re-read at most this often
+const ITERATION_CACHE_TTL_MS = 15 * 60 * 1000;
+
+// Duplicate search: title words queried, getWorkItems batch limit, matches kept per item
+const MAX_DUPLICATE_KEYWORDS = 30;
+const MAX_WORK_ITEMS_PER_REQUEST = 200;
+const MAX_DUPLICATES_PER_ITEM = 3;
+// Open items from the same meeting series are more likely to be the same work
+const SERIES_TAG_BONUS = 0.1;
+
+/**
+ * The team's dated iterations (by start date) and its backlog iteration
+ */
+export interface TeamIterations {
+  iterations: Iteration[];
+  /** Where items go when their deadline is past the known iterations */
+  backlogPath?: string;
+}
+
+// Work item types and their fields change rarely; they are re-read at most this often
+const PROCESS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const ACTION_ITEM_TYPES: Array<ActionItem["type"]> = ["Task", "Bug", "User Story"];
+
+// Size fields: Agile and CMMI use story points, Scrum and Basic effort; only
+// Agile and CMMI track completed hours
+const STORY_POINTS_FIELD = "Microsoft.VSTS.Scheduling.StoryPoints";
+const EFFORT_FIELD = "Microsoft.VSTS.Scheduling.Effort";
+const COMPLETED_WORK_FIELD = "Microsoft.VSTS.Scheduling.CompletedWork";
+
+// Project work item types for each action item type, by preference:
+// Agile, Scrum ("Product Backlog Item"), CMMI ("Requirement"), Basic ("Issue")
+const TYPE_CANDIDATES: Record<ActionItem["type"], string[]> = {
+  Task: ["Task"],
+  Bug: ["Bug", "Issue"],
+  "User Story": ["User Story", "Product Backlog Item", "Requirement", "Issue"],
+};
+
+// States for status updates when a work item's type or its states are unknown (Agile)
+const DEFAULT_STATES = { done: "Closed", inProgress: "Active" };
+
+// Where a field goes when the target type does not have it (HTML fields are appended)
+const FIELD_FALLBACKS: Record<string, { field: string; label?: string }> = {
+  "Microsoft.VSTS.TCM.ReproSteps": { field: "System.Description", label: "Steps to reproduce" },
+  "Microsoft.VSTS.Common.AcceptanceCriteria": { field: "System.Description", label: "Acceptance criteria" },
+  "Microsoft.VSTS.Scheduling.StoryPoints": { field: "Microsoft.VSTS.Scheduling.Effort" },
+};
+
+/**
+ * Fields of a project work item type
+ */
+export interface WorkItemTypeInfo {
+  /** Reference names of every field on the type */
+  fields: string[];
+  /** Fields that must be set on creation: always required, no default, not set by the system */
+  requiredFields: string[];
+}
+
+/**
+ * States of a work item type for its Completed and In Progress state categories
+ */
+export interface WorkItemTypeStates {
+  done?: string;
+  inProgress?: string;
+}
+
+/**
+ * The project's process and how action item types map onto its work item types
+ */
+export interface ProcessProfile {
+  /** Process template name, e.g. "Scrum" (inherited processes report their own name) */
+  processName?: string;
+  typeMap: Record<ActionItem["type"], string>;
+  /** Fields per mapped type; empty when the types could not be read */
+  types: Record<string, WorkItemTypeInfo>;
+  /** States per project work item type; empty when the types could not be read */
+  states: Record<string, WorkItemTypeStates>;
+}
+
+// Shared by concurrent work item creations
+let processCache: { value: Promise<ProcessProfile>; expiresAt: number } | undefined;
+
+// Shared by concurrent work item creations
+let iterationCache: { value: Promise<TeamIterations>; expiresAt: number } | undefined;
 
 /**
  * Extended work item result with identity resolution info
  */
 export interface ExtendedWorkItemResult extends WorkItemResult {
+  assigneeResolution?: ResolutionResult;
+  source?: ActionItemSource;
+  correlationId: string;
+  /** Likely duplicate the item was linked to as related */
+  relatedWorkItemId?: number;
+}
+
+/**
+ * An action item that could not be created, with the reason
+ */
+export interface FailedWorkItem {
+  task: ActionItem;
+  error: string;
+}
+
+/**
+ * Outcome of creating a list of work items: every item is in exactly one list
+ */
+export interface BatchCreateResult {
+  created: ExtendedWorkItemResult[];
+  failed: FailedWorkItem[];
+}
+
+/**
+ * A work item ready to be sent in a $batch request
+ */
+interface BatchEntry {
+  task: ActionItem;
   assigneeResolution?: ResolutionResult;
   correlationId: string;
+  workItemType: string;
+  patchDocument: PatchOperation[];
+}
+
+/**
+ * One response in a $batch result; the body is the JSON-encoded work item or error
+ */
+interface BatchResponseItem {
+  code: number;
+  body?: string;
+}
+
+/**
+ * Outcome of applying one status update
+ */
+export interface StatusUpdateResult {
+  workItemId: number;
+  title?: string;
+  status: StatusUpdate["status"];
+  /** State the work item was moved to, if any */
+  newState?: string;
+  success: boolean;
+  error?: string;
 }
 
 /**
  * Creates a single work item in Azure DevOps
  * @param task - The action item to create as a work item
  * @param resolveIdentities - Whether to resolve assignee names to AAD users
+ * @param seriesId - Meeting series the item comes from (see getOpenSeriesItems)
+ * @param meetingId - Meeting the item comes from (see getMeetingWorkItems)
+ * @param meetingSubject - Meeting subject, for field mapping templates
  * @returns The created work item details
  */
 export async function createWorkItem(
   task: ActionItem,
-  resolveIdentities: boolean = true
+  resolveIdentities: boolean = true,
+  seriesId?: string,
+  meetingId?: string,
+  meetingSubject?: string
 ): Promise<ExtendedWorkItemResult> {
   const context = createCorrelationContext("DevOps.CreateWorkItem", {
     title: task.title,
@@ -62,36 +242,34 @@ export async function createWorkItem(
   return withErrorHandling(
     async () => {
       const timer = telemetry.startTimer("DevOps.CreateWorkItem");
-
-      // Resolve identity if enabled
-      let assigneeResolution: ResolutionResult | undefined;
-      let assigneeIdentity = task.assignedTo;
-
-      if (resolveIdentities && task.assignedTo && task.assignedTo !== "Unassigned") {
-        try {
-          assigneeResolution = await resolveUser(task.assignedTo);
-          if (assigneeResolution.resolved) {
-            assigneeIdentity = getDevOpsIdentity(assigneeResolution);
-            telemetry.debug("Resolved assignee identity", {
-              original: task.assignedTo,
-              resolved: assigneeIdentity,
-            });
-          }
-        } catch (error) {
-          telemetry.warn("Failed to resolve identity, using original name", {
-            name: task.assignedTo,
-            error: String(error),
-          });
-        }
-      }
+      const { assigneeIdentity, assigneeResolution } = await resolveAssignee(task, resolveIdentities);
 
       const workItemTracking = await connection.getWorkItemTrackingApi();
-
-      // Build the patch document for work item creation
-      const patchDocument = buildPatchDocument(task, assigneeIdentity, context.correlationId);
+      const team = await getTeamIterations();
+      const profile = await getProcessProfile();
 
       // Map action item type to Azure DevOps work item type
-      const workItemType = mapWorkItemType(task.type);
+      const workItemType = profile.typeMap[task.type];
+
+      // Build the patch document for work item creation
+      const patchDocument = fitToWorkItemType(
+        applyFieldMapping(
+          buildPatchDocument(task, assigneeIdentity, context.correlationId, team, seriesId, meetingId),
+          {
+            task,
+            workItemType,
+            deadlineDate: getDeadlineDate(task, team.iterations),
+            meetingId,
+            seriesId,
+            meetingSubject,
+          },
+          profile,
+          context
+        ),
+        workItemType,
+        profile,
+        context
+      );
 
       const workItem = await workItemTracking.createWorkItem(
         undefined, // customHeaders
@@ -119,12 +297,11 @@ export async function createWorkItem(
 
       return {
         id: workItem.id,
-        url:
-          workItem._links?.html?.href ||
-          `${config.azureDevOps.orgUrl}/${config.azureDevOps.project}/_workitems/edit/${workItem.id}`,
+        url: workItem._links?.html?.href || workItemUrl(workItem.id),
         title: task.title,
         type: workItemType,
         assigneeResolution,
+        source: task.source,
         correlationId: context.correlationId,
       };
     },
@@ -133,14 +310,51 @@ export async function createWorkItem(
   );
 }
 
+/**
+ * The assignee as an Azure DevOps identity when it can be resolved (if enabled),
+ * otherwise the name as it was said
+ */
+async function resolveAssignee(
+  task: ActionItem,
+  resolveIdentities: boolean
+): Promise<{ assigneeIdentity: string; assigneeResolution?: ResolutionResult }> {
+  if (!resolveIdentities || !task.assignedTo || task.assignedTo === "Unassigned") {
+    return { assigneeIdentity: task.assignedTo };
+  }
+
+  try {
+    const assigneeResolution = await resolveUser(task.assignedTo);
+    if (!assigneeResolution.resolved) {
+      return { assigneeIdentity: task.assignedTo, assigneeResolution };
+    }
+
+    const assigneeIdentity = getDevOpsIdentity(assigneeResolution);
+    telemetry.debug("Resolved assignee identity", {
+      original: task.assignedTo,
+      resolved: assigneeIdentity,
+    });
+    return { assigneeIdentity, assigneeResolution };
+  } catch (error) {
+    telemetry.warn("Failed to resolve identity, using original name", {
+      name: task.assignedTo,
+      error: String(error),
+    });
+    return { assigneeIdentity: task.assignedTo };
+  }
+}
+
 /**
  * Build the patch document for work item creation
  */
 function buildPatchDocument(
   task: ActionItem,
   assigneeIdentity: string,
-  correlationId: string
+  correlationId: string,
+  team: TeamIterations,
+  seriesId?: string,
+  meetingId?: string
 ): PatchOperation[] {
+  const deadlineDate = getDeadlineDate(task, team.iterations);
   const patchDocument: PatchOperation[] = [
     {
       op: "add",
@@ -150,7 +364,7 @@ function buildPatchDocument(
     {
       op: "add",
       path: "/fields/System.Description",
-      value: formatDescription(task, correlationId),
+      value: formatDescription(task, correlationId, deadlineDate),
     },
     {
       op: "add",
@@ -160,10 +374,45 @@ function buildPatchDocument(
     {
       op: "add",
       path: "/fields/System.Tags",
-      value: "ActionAgent; AI-Generated",
+      value: formatTags(task, seriesId, meetingId),
     },
   ];
 
+  // Type-specific fields
+  if (task.type === "Bug") {
+    const reproSteps = formatReproSteps(task);
+    if (reproSteps) {
+      patchDocument.push({
+        op: "add",
+        path: "/fields/Microsoft.VSTS.TCM.ReproSteps",
+        value: reproSteps,
+      });
+    }
+    patchDocument.push({
+      op: "add",
+      path: "/fields/Microsoft.VSTS.Common.Severity",
+      value: severityMap[task.bugDetails?.severity || task.priority] || severityMap.Medium,
+    });
+  } else if (task.type === "User Story" && task.storyDetails?.acceptanceCriteria.length) {
+    patchDocument.push({
+      op: "add",
+      path: "/fields/Microsoft.VSTS.Common.AcceptanceCriteria",
+      value: formatList(task.storyDetails.acceptanceCriteria, "ul"),
+    });
+  }
+
+  // Proposed effort
+  if (task.estimate && config.estimation.enabled) {
+    patchDocument.push({
+      op: "add",
+      path:
+        task.estimate.unit === "hours"
+          ? "/fields/Microsoft.VSTS.Scheduling.RemainingWork"
+          : "/fields/Microsoft.VSTS.Scheduling.StoryPoints",
+      value: task.estimate.value,
+    });
+  }
+
   // Add assigned to if specified and not "Unassigned"
   if (assigneeIdentity && assigneeIdentity !== "Unassigned") {
     patchDocument.push({
@@ -189,156 +438,573 @@ function buildPatchDocument(
     });
   }
 
-  // Add iteration path if configured
-  if (config.azureDevOps.defaultIterationPath) {
+  // Current or deadline-matching iteration
+  const iterationPath = selectIterationPath(deadlineDate, team);
+  if (iterationPath) {
     patchDocument.push({
       op: "add",
       path: "/fields/System.IterationPath",
-      value: config.azureDevOps.defaultIterationPath,
+      value: iterationPath,
     });
   }
 
   // Add deadline as Target Date if specified
-  if (task.deadline) {
-    const parsedDate = parseDeadline(task.deadline);
-    if (parsedDate) {
-      patchDocument.push({
-        op: "add",
-        path: "/fields/Microsoft.VSTS.Scheduling.TargetDate",
-        value: parsedDate.toISOString(),
-      });
-    }
+  if (deadlineDate) {
+    patchDocument.push({
+      op: "add",
+      path: "/fields/Microsoft.VSTS.Scheduling.TargetDate",
+      // Midday UTC shows as the same calendar day in nearly every timezone
+      value: `${deadlineDate}T12:00:00.000Z`,
+    });
   }
 
   return patchDocument;
 }
 
 /**
- * Parse deadline string to Date
+ * Adds the fields and tags from the field mapping (AZURE_DEVOPS_FIELD_MAPPING_FILE);
+ * mapped fields replace the values ActionAgent would write
+ * @throws ActionAgentError when a mapped value is missing or cannot be converted,
+ * or the work item type does not have a mapped field
  */
-function parseDeadline(deadline: string): Date | null {
-  const lower = deadline.toLowerCase();
-  const now = new Date();
-
-  // Handle relative deadlines
-  if (lower.includes("eod") || lower.includes("end of day") || lower.includes("today")) {
-    const eod = new Date(now);
-    eod.setHours(23, 59, 59, 999);
-    return eod;
+function applyFieldMapping(
+  patchDocument: PatchOperation[],
+  input: MappingInput,
+  profile: ProcessProfile,
+  context: ReturnType<typeof createCorrelationContext>
+): PatchOperation[] {
+  const mapped = resolveFieldMapping(input);
+  // Unlike ActionAgent's own fields, mapped fields are never dropped or moved (see fitToWorkItemType)
+  const info = profile.types[input.workItemType];
+  const errors = [
+    ...mapped.errors,
+    ...Object.keys(mapped.fields)
+      .filter((field) => info && !info.fields.includes(field))
+      .map((field) => `${field} is not a field of ${input.workItemType}`),
+  ];
+  if (errors.length > 0) {
+    throw new ActionAgentError(`Field mapping for ${input.workItemType}: ${errors.join("; ")}`, context);
   }
 
-  if (lower.includes("tomorrow")) {
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(17, 0, 0, 0);
-    return tomorrow;
+  const mappedPaths = new Set(Object.keys(mapped.fields).map((field) => `/fields/${field}`));
+  const result = patchDocument
+    .filter((operation) => !mappedPaths.has(operation.path))
+    .map((operation) =>
+      operation.path === "/fields/System.Tags" && mapped.tags.length > 0
+        ? { ...operation, value: [operation.value, ...mapped.tags].join("; ") }
+        : operation
+    );
+  for (const [field, value] of Object.entries(mapped.fields)) {
+    result.push({ op: "add", path: `/fields/${field}`, value });
   }
+  return result;
+}
 
-  if (lower.includes("next week")) {
-    const nextWeek = new Date(now);
-    nextWeek.setDate(nextWeek.getDate() + 7);
-    return nextWeek;
+/**
+ * Work item tags; the prompt version tag lets results be filtered by template,
+ * the series tag finds open items from earlier meetings in the series, and the
+ * meeting and fingerprint tags find items created by earlier runs for the meeting
+ */
+function formatTags(task: ActionItem, seriesId?: string, meetingId?: string): string {
+  const tags = ["ActionAgent", "AI-Generated"];
+  if (task.promptVersion) {
+    tags.push(`prompt:${task.promptVersion}`);
+  }
+  if (seriesId) {
+    tags.push(formatSeriesTag(seriesId));
   }
+  if (meetingId) {
+    tags.push(formatMeetingTag(meetingId), formatFingerprintTag(task));
+  }
+  return tags.join("; ");
+}
+
+/**
+ * Short, stable tag for a meeting series (thread IDs are long and contain ':' and '@')
+ */
+export function formatSeriesTag(seriesId: string): string {
+  return `series:${shortHash(seriesId)}`;
+}
+
+/**
+ * Short, stable tag for a single meeting
+ */
+export function formatMeetingTag(meetingId: string): string {
+  return `meeting:${shortHash(meetingId)}`;
+}
+
+/**
+ * Tag identifying an action item across runs: its type and title words,
+ * ignoring case, punctuation, stop words and word order
+ */
+export function formatFingerprintTag(task: ActionItem): string {
+  return `item:${shortHash(`${task.type}|${contentTokens(task.title).sort().join(" ")}`)}`;
+}
 
-  if (lower.includes("end of sprint") || lower.includes("sprint end")) {
-    // Assume 2-week sprints ending on Friday
-    const endOfSprint = new Date(now);
-    const daysUntilFriday = (5 - endOfSprint.getDay() + 7) % 7 || 7;
-    endOfSprint.setDate(endOfSprint.getDate() + daysUntilFriday);
-    return endOfSprint;
+function shortHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 12);
+}
+
+/**
+ * The item's resolved deadline; items that were never resolved against their
+ * meeting (see resolveDeadlines) are resolved against today in DEADLINE_TIMEZONE
+ */
+function getDeadlineDate(task: ActionItem, iterations: Iteration[]): string | undefined {
+  return (
+    task.deadlineDate || (task.deadline ? resolveDeadline(task.deadline, { iterations }) : undefined)
+  );
+}
+
+/**
+ * The iteration the deadline falls in (the current one without a deadline or
+ * for a past deadline), or the team backlog when the deadline is after the
+ * last known iteration. Uses AZURE_DEVOPS_ITERATION_PATH without team iterations.
+ */
+function selectIterationPath(deadlineDate: string | undefined, team: TeamIterations): string {
+  if (team.iterations.length === 0) {
+    return config.azureDevOps.defaultIterationPath;
   }
 
-  // Try to parse as a date
-  const parsed = new Date(deadline);
-  if (!isNaN(parsed.getTime())) {
-    return parsed;
+  const today = new Date().toISOString().slice(0, 10);
+  const date = deadlineDate && deadlineDate > today ? deadlineDate : today;
+  // The iteration containing the date, or the next one to start after a gap
+  const iteration = team.iterations.find((candidate) => candidate.finishDate >= date);
+  return iteration?.path || team.backlogPath || config.azureDevOps.defaultIterationPath;
+}
+
+/**
+ * The team's iterations, cached for ITERATION_CACHE_TTL_MS; failed loads are
+ * not cached, so the next call reads them again
+ * @returns No iterations when AZURE_DEVOPS_TEAM_ITERATIONS=false or they cannot be read
+ */
+export function getTeamIterations(): Promise<TeamIterations> {
+  if (!config.azureDevOps.useTeamIterations) {
+    return Promise.resolve({ iterations: [] });
+  }
+  if (!iterationCache || iterationCache.expiresAt <= Date.now()) {
+    const value: Promise<TeamIterations> = loadTeamIterations().catch((error) => {
+      telemetry.warn("Failed to load team iterations, using AZURE_DEVOPS_ITERATION_PATH", {
+        team: getTeamName(),
+        error: String(error),
+      });
+      if (iterationCache?.value === value) {
+        iterationCache = undefined;
+      }
+      return { iterations: [] };
+    });
+    iterationCache = { value, expiresAt: Date.now() + ITERATION_CACHE_TTL_MS };
   }
+  return iterationCache.value;
+}
+
+/**
+ * Forgets cached team iterations (e.g. for tests)
+ */
+export function clearIterationCache(): void {
+  iterationCache = undefined;
+}
 
-  return null;
+function getTeamName(): string {
+  return config.azureDevOps.team || `${config.azureDevOps.project} Team`;
+}
+
+async function loadTeamIterations(): Promise<TeamIterations> {
+  const teamContext = { project: config.azureDevOps.project, team: getTeamName() };
+
+  const workApi = await connection.getWorkApi();
+  const [iterations, settings] = await Promise.all([
+    workApi.getTeamIterations(teamContext),
+    workApi.getTeamSettings(teamContext),
+  ]);
+
+  return {
+    iterations: iterations
+      .flatMap((iteration): Iteration[] => {
+        const { startDate, finishDate } = iteration.attributes || {};
+        // Undated iterations cannot be matched to deadlines
+        return iteration.path && startDate && finishDate
+          ? [
+              {
+                name: iteration.name || iteration.path,
+                path: iteration.path,
+                startDate: new Date(startDate).toISOString().slice(0, 10),
+                finishDate: new Date(finishDate).toISOString().slice(0, 10),
+              },
+            ]
+          : [];
+      })
+      .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    backlogPath: settings.backlogIteration?.path || undefined,
+  };
 }
 
 /**
- * Creates multiple work items from a list of action items with rate limiting
+ * Creates multiple work items through the Azure DevOps batch endpoint, one
+ * item per request in the batch, so one rejected item does not stop the others
+ * Falls back to one call per item where the batch endpoint is not available.
  * @param tasks - Array of action items to create
  * @param resolveIdentities - Whether to resolve assignee names to AAD users
- * @returns Array of created work item results
+ * @param seriesId - Meeting series the items come from
+ * @param meetingId - Meeting the items come from
+ * @param meetingSubject - Meeting subject, for field mapping templates
+ * @returns The created work items and the items that failed, with the error for each
  */
 export async function createWorkItems(
   tasks: ActionItem[],
-  resolveIdentities: boolean = true
-): Promise<ExtendedWorkItemResult[]> {
-  const context = createCorrelationContext("DevOps.BatchCreate", {
-    count: tasks.length,
-  });
+  resolveIdentities: boolean = true,
+  seriesId?: string,
+  meetingId?: string,
+  meetingSubject?: string
+): Promise<BatchCreateResult> {
+  const result: BatchCreateResult = { created: [], failed: [] };
+  if (tasks.length === 0) {
+    return result;
+  }
 
   telemetry.info("Creating work items in batch", { count: tasks.length });
+  const timer = telemetry.startTimer("DevOps.BatchCreate");
 
-  const results: ExtendedWorkItemResult[] = [];
-  const errors: Array<{ task: ActionItem; error: Error }> = [];
+  const team = await getTeamIterations();
+  const profile = await getProcessProfile();
+  const assignees = await mapWithConcurrency(tasks, MAX_CONCURRENT, (task) =>
+    resolveAssignee(task, resolveIdentities)
+  );
 
-  // Process in batches to avoid rate limiting
-  for (let i = 0; i < tasks.length; i += MAX_CONCURRENT) {
-    const batch = tasks.slice(i, i + MAX_CONCURRENT);
-    const batchResults = await Promise.allSettled(
-      batch.map((task) => createWorkItem(task, resolveIdentities))
-    );
+  // Items missing required or mapped fields fail here, without a request
+  const entries: BatchEntry[] = [];
+  tasks.forEach((task, index) => {
+    const assignee = assignees[index];
+    const { assigneeIdentity, assigneeResolution } =
+      assignee.status === "fulfilled" ? assignee.value : { assigneeIdentity: task.assignedTo, assigneeResolution: undefined };
+    const context = createCorrelationContext("DevOps.CreateWorkItem", { title: task.title, type: task.type });
+    const workItemType = profile.typeMap[task.type];
+
+    try {
+      const patchDocument = fitToWorkItemType(
+        applyFieldMapping(
+          buildPatchDocument(task, assigneeIdentity, context.correlationId, team, seriesId, meetingId),
+          {
+            task,
+            workItemType,
+            deadlineDate: getDeadlineDate(task, team.iterations),
+            meetingId,
+            seriesId,
+            meetingSubject,
+          },
+          profile,
+          context
+        ),
+        workItemType,
+        profile,
+        context
+      );
+      entries.push({ task, assigneeResolution, correlationId: context.correlationId, workItemType, patchDocument });
+    } catch (error) {
+      telemetry.warn("Work item cannot be created as extracted", { title: task.title, error: String(error) });
+      result.failed.push({ task, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  for (let i = 0; i < entries.length; i += MAX_BATCH_SIZE) {
+    const chunk = entries.slice(i, i + MAX_BATCH_SIZE);
+    let outcomes: Array<ExtendedWorkItemResult | Error>;
 
-    for (let j = 0; j < batchResults.length; j++) {
-      const result = batchResults[j];
-      if (result.status === "fulfilled") {
-        results.push(result.value);
+    try {
+      outcomes = await sendBatch(chunk);
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === undefined || !BATCH_UNSUPPORTED_STATUS_CODES.includes(statusCode)) {
+        // The batch may have been partly applied, so its items are reported, not resent
+        outcomes = chunk.map(() => (error instanceof Error ? error : new Error(String(error))));
       } else {
-        errors.push({ task: batch[j], error: result.reason });
-        telemetry.error(
-          "Failed to create work item",
-          result.reason,
-          { title: batch[j].title }
+        telemetry.warn("Batch endpoint unavailable, creating work items one by one", { statusCode });
+        const settled = await mapWithConcurrency(chunk, MAX_CONCURRENT, (entry) =>
+          createWorkItem(entry.task, resolveIdentities, seriesId, meetingId, meetingSubject)
+        );
+        outcomes = settled.map((outcome) =>
+          outcome.status === "fulfilled"
+            ? outcome.value
+            : outcome.reason instanceof Error
+              ? outcome.reason
+              : new Error(String(outcome.reason))
         );
       }
     }
 
-    // Delay between batches
-    if (i + MAX_CONCURRENT < tasks.length) {
-      await new Promise((resolve) =>
-        setTimeout(resolve, DELAY_BETWEEN_BATCHES_MS)
-      );
-    }
+    outcomes.forEach((outcome, index) => {
+      const task = chunk[index].task;
+      if (outcome instanceof Error) {
+        telemetry.error("Failed to create work item", outcome, { title: task.title });
+        result.failed.push({ task, error: outcome.message });
+      } else {
+        result.created.push(outcome);
+      }
+    });
   }
 
-  if (errors.length > 0) {
+  timer.stop();
+  telemetry.trackMetric("DevOps.BatchFailures", result.failed.length, "count");
+  if (result.failed.length > 0) {
     telemetry.warn(
-      `Batch creation completed with errors: ${results.length} succeeded, ${errors.length} failed`
+      `Batch creation completed with errors: ${result.created.length} succeeded, ${result.failed.length} failed`
     );
   } else {
-    telemetry.info(`Batch creation completed: ${results.length} work items created`);
+    telemetry.info(`Batch creation completed: ${result.created.length} work items created`);
   }
 
-  return results;
+  return result;
 }
 
 /**
- * Maps ActionItem type to Azure DevOps work item type
- * Adjust these mappings based on your process template (Agile, Scrum, Basic)
+ * Sends one $batch request creating each entry's work item
+ * @returns Per entry, the created work item or the error Azure DevOps reported for it
  */
-function mapWorkItemType(type: ActionItem["type"]): string {
-  switch (type) {
-    case "Bug":
-      return "Bug";
-    case "User Story":
-      return "User Story"; // Use "Product Backlog Item" for Scrum template
-    case "Task":
-    default:
-      return config.azureDevOps.defaultWorkItemType;
+async function sendBatch(entries: BatchEntry[]): Promise<Array<ExtendedWorkItemResult | Error>> {
+  const project = encodeURIComponent(config.azureDevOps.project);
+  const requests = entries.map(({ workItemType, patchDocument }) => ({
+    method: "PATCH",
+    uri: `/${project}/_apis/wit/workitems/$${encodeURIComponent(workItemType)}?api-version=${BATCH_API_VERSION}`,
+    headers: { "Content-Type": "application/json-patch+json" },
+    body: patchDocument,
+  }));
+
+  const response = await connection.rest.create<{ value?: BatchResponseItem[] }>(
+    `${config.azureDevOps.orgUrl}/_apis/wit/$batch?api-version=${BATCH_API_VERSION}`,
+    requests
+  );
+  // The REST client resolves a 404 with no result instead of rejecting
+  if (!response.result) {
+    throw Object.assign(new Error(`Azure DevOps $batch returned HTTP ${response.statusCode}`), {
+      statusCode: response.statusCode,
+    });
+  }
+  const responses = response.result.value || [];
+
+  return entries.map(({ task, assigneeResolution, correlationId, workItemType: type }, index) => {
+    const item = responses[index];
+    const body = safeJsonParse<{ id?: number; message?: string; _links?: { html?: { href?: string } } }>(
+      item?.body || "{}",
+      {}
+    );
+    if (!item || item.code >= 300 || !body.id) {
+      return new Error(body.message || `Azure DevOps returned ${item ? `HTTP ${item.code}` : "no response"} for this item`);
+    }
+
+    telemetry.info(`Created work item #${body.id}`, { title: task.title, type });
+    telemetry.trackSuccess("DevOps.CreateWorkItem", { type });
+    return {
+      id: body.id,
+      url: body._links?.html?.href || workItemUrl(body.id),
+      title: task.title,
+      type,
+      assigneeResolution,
+      source: task.source,
+      correlationId,
+    };
+  });
+}
+
+/**
+ * Web link to a work item
+ */
+function workItemUrl(workItemId: number): string {
+  return `${config.azureDevOps.orgUrl}/${config.azureDevOps.project}/_workitems/edit/${workItemId}`;
+}
+
+/**
+ * The project's process and work item type mapping, cached for PROCESS_CACHE_TTL_MS
+ * AZURE_DEVOPS_TYPE_MAP entries always win over the detected mapping. When the
+ * types cannot be read the default mapping is used, without caching it, so the
+ * next call reads them again.
+ */
+export function getProcessProfile(): Promise<ProcessProfile> {
+  if (!processCache || processCache.expiresAt <= Date.now()) {
+    const value: Promise<ProcessProfile> = loadProcessProfile().catch((error) => {
+      telemetry.warn("Failed to read work item types, using the default mapping", { error: String(error) });
+      if (processCache?.value === value) {
+        processCache = undefined;
+      }
+      return { typeMap: getDefaultTypeMap(), types: {}, states: {} };
+    });
+    processCache = { value, expiresAt: Date.now() + PROCESS_CACHE_TTL_MS };
+  }
+  return processCache.value;
+}
+
+/**
+ * Forgets the cached process profile (e.g. for tests)
+ */
+export function clearProcessCache(): void {
+  processCache = undefined;
+}
+
+/**
+ * Type mapping used when the project's types cannot be read
+ */
+function getDefaultTypeMap(): Record<ActionItem["type"], string> {
+  const overrides = config.azureDevOps.typeMap;
+  return {
+    Task: overrides.Task || config.azureDevOps.defaultWorkItemType,
+    Bug: overrides.Bug || "Bug",
+    "User Story": overrides["User Story"] || "User Story",
+  };
+}
+
+async function loadProcessProfile(): Promise<ProcessProfile> {
+  const overrides = config.azureDevOps.typeMap;
+  const typeMap = getDefaultTypeMap();
+
+  const workItemTracking = await connection.getWorkItemTrackingApi();
+  const [workItemTypes, processName] = await Promise.all([
+    workItemTracking.getWorkItemTypes(config.azureDevOps.project),
+    getProcessName(),
+  ]);
+  const available = workItemTypes
+    .filter((workItemType) => workItemType.name && !workItemType.isDisabled)
+    .map((workItemType) => workItemType.name as string);
+
+  for (const type of ACTION_ITEM_TYPES) {
+    const candidates =
+      type === "Task" ? [config.azureDevOps.defaultWorkItemType, ...TYPE_CANDIDATES.Task] : TYPE_CANDIDATES[type];
+    typeMap[type] = overrides[type] || candidates.find((name) => available.includes(name)) || typeMap[type];
+    if (!available.includes(typeMap[type])) {
+      telemetry.warn("Work item type not found in the project", { type: typeMap[type], available });
+    }
+  }
+
+  const targets = Array.from(new Set(Object.values(typeMap))).filter((name) => available.includes(name));
+  const fieldLists = await Promise.all(
+    targets.map((name) =>
+      workItemTracking.getWorkItemTypeFieldsWithReferences(
+        config.azureDevOps.project,
+        name,
+        WorkItemTypeFieldsExpandLevel.All
+      )
+    )
+  );
+  const types = Object.fromEntries(
+    targets.map((name, index): [string, WorkItemTypeInfo] => {
+      const fields = fieldLists[index].filter((field) => !!field.referenceName);
+      return [
+        name,
+        {
+          fields: fields.map((field) => field.referenceName as string),
+          requiredFields: fields
+            .filter(
+              (field) =>
+                field.alwaysRequired &&
+                (field.defaultValue === undefined || field.defaultValue === null || field.defaultValue === "") &&
+                // System fields (state, area, dates, ...) are filled in by Azure DevOps
+                !(field.referenceName as string).startsWith("System.")
+            )
+            .map((field) => field.referenceName as string),
+        },
+      ];
+    })
+  );
+
+  const states = Object.fromEntries(
+    workItemTypes
+      .filter((workItemType) => workItemType.name)
+      .map((workItemType): [string, WorkItemTypeStates] => {
+        const byCategory = (category: string) =>
+          workItemType.states?.find((state) => state.category === category)?.name;
+        return [
+          workItemType.name as string,
+          { done: byCategory("Completed"), inProgress: byCategory("InProgress") },
+        ];
+      })
+  );
+
+  telemetry.info("Detected work item types", { process: processName, ...typeMap });
+  return { processName, typeMap, types, states };
+}
+
+/**
+ * The project's process template name, if the project's capabilities can be read
+ */
+async function getProcessName(): Promise<string | undefined> {
+  try {
+    const coreApi = await connection.getCoreApi();
+    const project = await coreApi.getProject(config.azureDevOps.project, true);
+    return project.capabilities?.processTemplate?.templateName || undefined;
+  } catch (error) {
+    telemetry.debug("Could not read the project's process template", { error: String(error) });
+    return undefined;
+  }
+}
+
+/**
+ * Fits a patch document to the target work item type: fields the type lacks
+ * move to their fallback (see FIELD_FALLBACKS) or are dropped; mapped fields
+ * were already checked by applyFieldMapping
+ * @throws ActionAgentError when the type requires fields the document does not set
+ */
+function fitToWorkItemType(
+  patchDocument: PatchOperation[],
+  workItemType: string,
+  profile: ProcessProfile,
+  context: ReturnType<typeof createCorrelationContext>
+): PatchOperation[] {
+  const info = profile.types[workItemType];
+  if (!info) {
+    return patchDocument;
+  }
+
+  const fields = new Set(info.fields);
+  const fitted: PatchOperation[] = [];
+  for (const operation of patchDocument) {
+    const field = operation.path.replace(/^\/fields\//, "");
+    if (!operation.path.startsWith("/fields/") || fields.has(field)) {
+      fitted.push({ ...operation });
+      continue;
+    }
+
+    const fallback = FIELD_FALLBACKS[field];
+    if (!fallback || !fields.has(fallback.field)) {
+      telemetry.debug("Dropped a field the work item type does not have", { field, workItemType });
+      continue;
+    }
+
+    const existing = fitted.find((candidate) => candidate.path === `/fields/${fallback.field}`);
+    const value = fallback.label
+      ? `<br/><div><strong>${fallback.label}:</strong></div>${operation.value}`
+      : operation.value;
+    if (existing && fallback.label) {
+      existing.value = `${existing.value}${value}`;
+    } else {
+      fitted.push({ ...operation, path: `/fields/${fallback.field}`, value });
+    }
+  }
+
+  const missing = info.requiredFields.filter(
+    (field) => !fitted.some((operation) => operation.path === `/fields/${field}`)
+  );
+  if (missing.length > 0) {
+    throw new ActionAgentError(
+      `${workItemType} requires ${missing.join(", ")}, which ActionAgent does not set`,
+      context
+    );
   }
+
+  return fitted;
 }
 
 /**
  * Formats the work item description with AI generation notice and correlation ID
  */
-function formatDescription(task: ActionItem, correlationId: string): string {
+function formatDescription(
+  task: ActionItem,
+  correlationId: string,
+  deadlineDate: string | undefined
+): string {
   let description = `<div><strong>🤖 Generated by ActionAgent AI</strong></div>`;
   description += `<hr/>`;
 
+  if (task.storyDetails?.goal) {
+    description += `<p>${formatUserStory(task.storyDetails)}</p>`;
+  }
+
   if (task.description) {
     description += `<p>${escapeHtml(task.description)}</p>`;
   }
@@ -348,16 +1014,97 @@ function formatDescription(task: ActionItem, correlationId: string): string {
   description += `<tr><td><strong>Original Assignee:</strong></td><td>${escapeHtml(task.assignedTo)}</td></tr>`;
 
   if (task.deadline) {
-    description += `<tr><td><strong>Deadline:</strong></td><td>${escapeHtml(task.deadline)}</td></tr>`;
+    description += `<tr><td><strong>Deadline:</strong></td><td>${escapeHtml(task.deadline)}${deadlineDate ? ` (${deadlineDate})` : ""}</td></tr>`;
+  }
+
+  if (task.estimate) {
+    description += `<tr><td><strong>Estimate:</strong></td><td>${formatEstimate(task.estimate)}</td></tr>`;
+  }
+
+  if (task.promptVersion) {
+    description += `<tr><td><strong>Prompt:</strong></td><td>${escapeHtml(task.promptVersion)}</td></tr>`;
   }
 
   description += `</table>`;
+
+  if (task.source) {
+    description += formatSource(task.source);
+  }
+
   description += `<br/><p><em>This work item was automatically created from a Teams meeting transcript.</em></p>`;
   description += `<p style="color: #888; font-size: 10px;">Correlation ID: ${correlationId}</p>`;
 
   return description;
 }
 
+/**
+ * Formats the Bug repro steps field: what was described, the steps, and
+ * expected vs. actual behavior
+ * @returns undefined when the meeting gave nothing to reproduce from
+ */
+function formatReproSteps(task: ActionItem): string | undefined {
+  const details = task.bugDetails;
+  let html = task.description ? `<p>${escapeHtml(task.description)}</p>` : "";
+
+  if (details?.reproSteps.length) {
+    html += `<div><strong>Steps to reproduce:</strong></div>`;
+    html += formatList(details.reproSteps, "ol");
+  }
+  if (details?.expectedBehavior) {
+    html += `<div><strong>Expected:</strong> ${escapeHtml(details.expectedBehavior)}</div>`;
+  }
+  if (details?.actualBehavior) {
+    html += `<div><strong>Actual:</strong> ${escapeHtml(details.actualBehavior)}</div>`;
+  }
+
+  return html || undefined;
+}
+
+/**
+ * Formats "As a <role>, I want <goal> so that <benefit>"
+ */
+function formatUserStory(story: StoryDetails): string {
+  let text = `<strong>As a</strong> ${escapeHtml(story.role || "user")}, `;
+  text += `<strong>I want</strong> ${escapeHtml(story.goal || "")}`;
+  if (story.benefit) {
+    text += ` <strong>so that</strong> ${escapeHtml(story.benefit)}`;
+  }
+  return `${text}.`;
+}
+
+/**
+ * Formats an estimate and its rationale for the description table
+ */
+function formatEstimate(estimate: EffortEstimate): string {
+  const size = `${estimate.value} ${estimate.unit === "hours" ? "hours" : "story points"}`;
+  return estimate.rationale ? `${size} — ${escapeHtml(estimate.rationale)}` : size;
+}
+
+/**
+ * Formats entries as an HTML list
+ */
+function formatList(entries: string[], tag: "ol" | "ul"): string {
+  return `<${tag}>${entries.map((entry) => `<li>${escapeHtml(entry)}</li>`).join("")}</${tag}>`;
+}
+
+/**
+ * Formats the transcript citation so reviewers can check the item against what was said
+ */
+function formatSource(source: ActionItemSource): string {
+  const timing = source.startTime
+    ? ` at ${escapeHtml(source.startTime)}${source.endTime ? `–${escapeHtml(source.endTime)}` : ""}`
+    : "";
+
+  let html = `<br/><div><strong>Source:</strong> ${escapeHtml(source.speaker)}${timing}</div>`;
+  html += `<blockquote>“${escapeHtml(source.quote)}”</blockquote>`;
+
+  if (source.verified === false) {
+    html += `<p><em>⚠️ This quote could not be matched verbatim in the transcript.</em></p>`;
+  }
+
+  return html;
+}
+
 /**
  * Escape HTML special characters
  */
@@ -393,6 +1140,542 @@ export async function validateConnection(): Promise<boolean> {
   }
 }
 
+/**
+ * Recently completed work items with their actual size, for estimate calibration:
+ * story points (Effort in Scrum and Basic) for User Stories and Bugs, completed
+ * hours for Tasks where the process tracks them
+ * @param limit - Maximum number of items to return
+ */
+export async function getEstimateReferences(limit: number): Promise<EstimateReference[]> {
+  if (limit <= 0) {
+    return [];
+  }
+
+  try {
+    const { sizeField, hoursField } = getEstimateFields(await getProcessProfile());
+    const estimateFields = [sizeField, hoursField].filter((field): field is string => !!field);
+    if (estimateFields.length === 0) {
+      return [];
+    }
+
+    const workItemTracking = await connection.getWorkItemTrackingApi();
+    const query = await workItemTracking.queryByWiql(
+      {
+        query:
+          "SELECT [System.Id] FROM WorkItems " +
+          "WHERE [System.TeamProject] = @project " +
+          "AND [System.State] IN ('Closed', 'Done', 'Resolved') " +
+          `AND (${estimateFields.map((field) => `[${field}] > 0`).join(" OR ")}) ` +
+          "ORDER BY [System.ChangedDate] DESC",
+      },
+      { project: config.azureDevOps.project },
+      undefined,
+      limit
+    );
+
+    const ids = (query.workItems || []).map((ref) => ref.id).filter((id): id is number => !!id);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const workItems = await workItemTracking.getWorkItems(ids, [
+      "System.Title",
+      "System.WorkItemType",
+      ...estimateFields,
+    ]);
+
+    return workItems.flatMap((workItem): EstimateReference[] => {
+      const fields = workItem.fields || {};
+      const storyPoints = (sizeField && Number(fields[sizeField])) || 0;
+      const hours = (hoursField && Number(fields[hoursField])) || 0;
+      const base = { title: String(fields["System.Title"] || ""), type: String(fields["System.WorkItemType"] || "") };
+
+      if (storyPoints > 0) return [{ ...base, value: storyPoints, unit: "storyPoints" }];
+      if (hours > 0) return [{ ...base, value: hours, unit: "hours" }];
+      return [];
+    });
+  } catch (error) {
+    telemetry.warn("Failed to load estimate calibration items", { error: String(error) });
+    return [];
+  }
+}
+
+/**
+ * Fields holding the size and the completed hours of work items in the
+ * project's process; the Agile and CMMI fields when its types could not be read
+ */
+function getEstimateFields(profile: ProcessProfile): { sizeField?: string; hoursField?: string } {
+  const known = new Set(Object.values(profile.types).flatMap((type) => type.fields));
+  if (known.size === 0) {
+    return { sizeField: STORY_POINTS_FIELD, hoursField: COMPLETED_WORK_FIELD };
+  }
+  return {
+    sizeField: [STORY_POINTS_FIELD, EFFORT_FIELD].find((field) => known.has(field)),
+    hoursField: known.has(COMPLETED_WORK_FIELD) ? COMPLETED_WORK_FIELD : undefined,
+  };
+}
+
+/**
+ * Open ActionAgent work items created in earlier meetings of a series,
+ * most recently changed first
+ * @param seriesId - Meeting series; empty for meetings that are not part of one
+ * @param excludeMeetingId - Meeting whose own items are left out (e.g. the one being reprocessed)
+ * @returns An empty list when the query fails, so extraction can go on without them
+ */
+export async function getOpenSeriesItems(seriesId: string, excludeMeetingId?: string): Promise<OpenWorkItem[]> {
+  const limit = config.progress.maxOpenItems;
+  if (!config.progress.enabled || limit <= 0 || !seriesId) {
+    return [];
+  }
+
+  try {
+    const workItemTracking = await connection.getWorkItemTrackingApi();
+    const query = await workItemTracking.queryByWiql(
+      {
+        query:
+          "SELECT [System.Id] FROM WorkItems " +
+          "WHERE [System.TeamProject] = @project " +
+          "AND [System.Tags] CONTAINS 'ActionAgent' " +
+          `AND [System.Tags] CONTAINS '${formatSeriesTag(seriesId)}' ` +
+          (excludeMeetingId ? `AND NOT [System.Tags] CONTAINS '${formatMeetingTag(excludeMeetingId)}' ` : "") +
+          `AND [System.State] NOT IN (${CLOSED_STATES.map((state) => `'${state}'`).join(", ")}) ` +
+          "ORDER BY [System.ChangedDate] DESC",
+      },
+      { project: config.azureDevOps.project },
+      undefined,
+      limit
+    );
+
+    const ids = (query.workItems || []).map((ref) => ref.id).filter((id): id is number => !!id);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const workItems = await workItemTracking.getWorkItems(ids, [
+      "System.Title",
+      "System.WorkItemType",
+      "System.State",
+      "System.AssignedTo",
+    ]);
+
+    return workItems
+      .filter((workItem) => !!workItem.id)
+      .map((workItem) => {
+        const fields = workItem.fields || {};
+        const assignedTo = fields["System.AssignedTo"];
+        return {
+          id: workItem.id as number,
+          title: String(fields["System.Title"] || ""),
+          type: String(fields["System.WorkItemType"] || ""),
+          state: String(fields["System.State"] || ""),
+          // Identity fields come back as objects with a display name
+          assignedTo:
+            typeof assignedTo === "object" && assignedTo
+              ? assignedTo.displayName
+              : assignedTo || undefined,
+        };
+      });
+  } catch (error) {
+    telemetry.warn("Failed to load open items for the meeting series", { error: String(error) });
+    return [];
+  }
+}
+
+/**
+ * Work items created by earlier runs for a meeting, in any state
+ * @throws ActionAgentError when the query fails; an empty list would let the
+ * run create every item a second time
+ */
+export async function getMeetingWorkItems(meetingId: string): Promise<MeetingWorkItem[]> {
+  const context = createCorrelationContext("DevOps.GetMeetingWorkItems", { meetingId });
+
+  return withErrorHandling(
+    async () => {
+      const workItemTracking = await connection.getWorkItemTrackingApi();
+      const query = await workItemTracking.queryByWiql(
+        {
+          query:
+            "SELECT [System.Id] FROM WorkItems " +
+            "WHERE [System.TeamProject] = @project " +
+            "AND [System.Tags] CONTAINS 'ActionAgent' " +
+            `AND [System.Tags] CONTAINS '${formatMeetingTag(meetingId)}' ` +
+            "ORDER BY [System.Id]",
+        },
+        { project: config.azureDevOps.project },
+        undefined,
+        MAX_WORK_ITEMS_PER_REQUEST
+      );
+
+      const ids = (query.workItems || []).map((ref) => ref.id).filter((id): id is number => !!id);
+      if (ids.length === 0) {
+        return [];
+      }
+
+      const workItems = await workItemTracking.getWorkItems(ids, [
+        "System.Title",
+        "System.WorkItemType",
+        "System.State",
+        "System.Tags",
+      ]);
+
+      return workItems
+        .filter((workItem) => !!workItem.id)
+        .map((workItem) => {
+          const fields = workItem.fields || {};
+          const tags = String(fields["System.Tags"] || "").split(";").map((tag) => tag.trim());
+          return {
+            id: workItem.id as number,
+            title: String(fields["System.Title"] || ""),
+            type: String(fields["System.WorkItemType"] || ""),
+            state: String(fields["System.State"] || ""),
+            url: workItemUrl(workItem.id as number),
+            fingerprint: tags.find((tag) => tag.startsWith("item:")),
+          };
+        });
+    },
+    context
+  );
+}
+
+/**
+ * Whether an earlier run already created the action item: same fingerprint,
+ * or a title as similar as deduplication requires (the fingerprint changes
+ * when a rerun words the title slightly differently)
+ */
+export function isCreatedItem(task: ActionItem, createdItems: MeetingWorkItem[]): boolean {
+  const fingerprint = formatFingerprintTag(task);
+  return createdItems.some(
+    (item) =>
+      item.fingerprint === fingerprint ||
+      textSimilarity(task.title, item.title) >= config.deduplication.similarityThreshold
+  );
+}
+
+/**
+ * Applies status updates from a meeting: "done" closes the work item,
+ * "inProgress" activates it, "blocked" only comments. Every update adds a
+ * comment quoting what was said.
+ */
+export async function applyStatusUpdates(
+  updates: StatusUpdate[],
+  meetingSubject: string
+): Promise<StatusUpdateResult[]> {
+  const results: StatusUpdateResult[] = [];
+  const profile = await getProcessProfile();
+
+  for (const update of updates) {
+    const newState = getTargetState(update, profile);
+
+    try {
+      await applyStatusUpdate(update, newState, meetingSubject);
+      results.push({
+        workItemId: update.workItemId,
+        title: update.title,
+        status: update.status,
+        newState,
+        success: true,
+      });
+    } catch (error) {
+      telemetry.error("Failed to apply status update", error as Error, { workItemId: update.workItemId });
+      results.push({
+        workItemId: update.workItemId,
+        title: update.title,
+        status: update.status,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  telemetry.trackMetric(
+    "DevOps.StatusUpdates",
+    results.filter((result) => result.success).length,
+    "count"
+  );
+
+  return results;
+}
+
+/**
+ * State a status update moves its work item to: AZURE_DEVOPS_DONE_STATE /
+ * AZURE_DEVOPS_ACTIVE_STATE if set, else the state of the item's type in the
+ * Completed / In Progress category; blocked items keep their state
+ */
+function getTargetState(update: StatusUpdate, profile: ProcessProfile): string | undefined {
+  if (update.status === "blocked") {
+    return undefined;
+  }
+
+  const override = update.status === "done" ? config.azureDevOps.doneState : config.azureDevOps.activeState;
+  const states = update.type ? profile.states[update.type] : undefined;
+  return override || states?.[update.status] || DEFAULT_STATES[update.status];
+}
+
+/**
+ * Moves one work item to a new state (if any) and comments with the meeting's words
+ */
+async function applyStatusUpdate(
+  update: StatusUpdate,
+  newState: string | undefined,
+  meetingSubject: string
+): Promise<void> {
+  const context = createCorrelationContext("DevOps.ApplyStatusUpdate", {
+    workItemId: update.workItemId,
+    status: update.status,
+  });
+
+  await withErrorHandling(
+    async () => {
+      const workItemTracking = await connection.getWorkItemTrackingApi();
+
+      if (newState) {
+        await workItemTracking.updateWorkItem(
+          undefined, // customHeaders
+          [{ op: "add", path: "/fields/System.State", value: newState }],
+          update.workItemId,
+          config.azureDevOps.project
+        );
+      }
+
+      await workItemTracking.addComment(
+        { text: formatStatusComment(update, meetingSubject, context.correlationId) },
+        config.azureDevOps.project,
+        update.workItemId
+      );
+
+      telemetry.info(`Applied status update to work item #${update.workItemId}`, {
+        status: update.status,
+        newState,
+      });
+    },
+    context,
+    { enableRetry: true }
+  );
+}
+
+/**
+ * Formats the work item comment for a status update
+ */
+function formatStatusComment(
+  update: StatusUpdate,
+  meetingSubject: string,
+  correlationId: string
+): string {
+  const label =
+    update.status === "done" ? "done" : update.status === "inProgress" ? "in progress" : "blocked";
+  let html = `<div><strong>🤖 ActionAgent status update:</strong> reported as ${label} in "${escapeHtml(meetingSubject)}"</div>`;
+
+  if (update.comment) {
+    html += `<p>${escapeHtml(update.comment)}</p>`;
+  }
+  if (update.source) {
+    html += formatSource(update.source);
+  }
+
+  html += `<p style="color: #888; font-size: 10px;">Correlation ID: ${correlationId}</p>`;
+  return html;
+}
+
+/**
+ * Open work items in the project that likely cover the same work as the action
+ * items, by title similarity; items tagged with the same meeting series score higher
+ * @returns The action items with likely duplicates, in their original order;
+ *          none when the search fails, so creation can go on
+ */
+export async function findDuplicates(tasks: ActionItem[], seriesId?: string): Promise<DuplicateMatch[]> {
+  const limit = Math.min(config.duplicates.maxCandidates, MAX_WORK_ITEMS_PER_REQUEST);
+  // Candidates share at least one title word with an action item
+  const keywords = Array.from(new Set(tasks.flatMap((task) => contentTokens(task.title))))
+    .filter((keyword) => keyword.length >= 3)
+    .slice(0, MAX_DUPLICATE_KEYWORDS);
+  if (!config.duplicates.enabled || limit <= 0 || keywords.length === 0) {
+    return [];
+  }
+
+  try {
+    const workItemTracking = await connection.getWorkItemTrackingApi();
+    const query = await workItemTracking.queryByWiql(
+      {
+        query:
+          "SELECT [System.Id] FROM WorkItems " +
+          "WHERE [System.TeamProject] = @project " +
+          `AND [System.State] NOT IN (${CLOSED_STATES.map((state) => `'${state}'`).join(", ")}) ` +
+          `AND (${keywords.map((keyword) => `[System.Title] CONTAINS '${keyword}'`).join(" OR ")}) ` +
+          "ORDER BY [System.ChangedDate] DESC",
+      },
+      { project: config.azureDevOps.project },
+      undefined,
+      limit
+    );
+
+    const ids = (query.workItems || []).map((ref) => ref.id).filter((id): id is number => !!id);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const workItems = await workItemTracking.getWorkItems(ids, [
+      "System.Title",
+      "System.WorkItemType",
+      "System.State",
+      "System.Tags",
+    ]);
+
+    const seriesTag = seriesId ? formatSeriesTag(seriesId) : undefined;
+    const existing = workItems
+      .filter((workItem) => !!workItem.id)
+      .map((workItem) => {
+        const fields = workItem.fields || {};
+        const tags = String(fields["System.Tags"] || "").split(";").map((tag) => tag.trim());
+        return {
+          id: workItem.id as number,
+          title: String(fields["System.Title"] || ""),
+          type: String(fields["System.WorkItemType"] || ""),
+          state: String(fields["System.State"] || ""),
+          url: workItemUrl(workItem.id as number),
+          bonus: seriesTag && tags.includes(seriesTag) ? SERIES_TAG_BONUS : 0,
+        };
+      });
+
+    const matches = tasks.flatMap((task): DuplicateMatch[] => {
+      const candidates = existing
+        .map(({ bonus, ...item }): DuplicateCandidate => ({
+          ...item,
+          similarity: Math.min(1, textSimilarity(task.title, item.title) + bonus),
+        }))
+        .filter((candidate) => candidate.similarity >= config.duplicates.similarityThreshold)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, MAX_DUPLICATES_PER_ITEM);
+      return candidates.length > 0 ? [{ task, candidates }] : [];
+    });
+
+    if (matches.length > 0) {
+      telemetry.info("Found likely duplicates in Azure DevOps", { count: matches.length });
+      telemetry.trackMetric("DevOps.DuplicatesFound", matches.length, "count");
+    }
+    return matches;
+  } catch (error) {
+    telemetry.warn("Failed to search for duplicate work items", { error: String(error) });
+    return [];
+  }
+}
+
+/**
+ * Handles an action item with a likely duplicate: "create" creates it, "link"
+ * creates it and links it to the best match as related, "comment" only adds
+ * the meeting's words to the best match
+ * @returns The created work item, if one was created
+ */
+export async function resolveDuplicate(
+  match: DuplicateMatch,
+  resolution: DuplicateResolution,
+  meetingSubject: string,
+  seriesId?: string,
+  meetingId?: string
+): Promise<ExtendedWorkItemResult | undefined> {
+  const [duplicate] = match.candidates;
+  telemetry.trackMetric("DevOps.DuplicateResolutions", 1, "count", { resolution });
+
+  if (duplicate && resolution === "comment") {
+    await commentOnDuplicate(match.task, duplicate.id, meetingSubject);
+    return undefined;
+  }
+
+  const workItem = await createWorkItem(match.task, true, seriesId, meetingId, meetingSubject);
+  if (!duplicate || resolution !== "link") {
+    return workItem;
+  }
+
+  try {
+    await linkAsRelated(workItem.id, duplicate.id);
+    return { ...workItem, relatedWorkItemId: duplicate.id };
+  } catch (error) {
+    // The item exists either way; a missing link is not worth failing over
+    telemetry.warn("Created work item but could not link it to its likely duplicate", {
+      workItemId: workItem.id,
+      duplicateId: duplicate.id,
+      error: String(error),
+    });
+    return workItem;
+  }
+}
+
+/**
+ * Adds a "Related" link from one work item to another
+ */
+async function linkAsRelated(workItemId: number, relatedId: number): Promise<void> {
+  const context = createCorrelationContext("DevOps.LinkRelated", { workItemId, relatedId });
+
+  await withErrorHandling(
+    async () => {
+      const workItemTracking = await connection.getWorkItemTrackingApi();
+      await workItemTracking.updateWorkItem(
+        undefined, // customHeaders
+        [
+          {
+            op: "add",
+            path: "/relations/-",
+            value: {
+              rel: "System.LinkTypes.Related",
+              url: `${config.azureDevOps.orgUrl}/_apis/wit/workItems/${relatedId}`,
+              attributes: { comment: "Likely duplicate found by ActionAgent" },
+            },
+          },
+        ],
+        workItemId,
+        config.azureDevOps.project
+      );
+    },
+    context,
+    { enableRetry: true }
+  );
+}
+
+/**
+ * Comments on an existing work item with an action item that restates it
+ */
+async function commentOnDuplicate(
+  task: ActionItem,
+  workItemId: number,
+  meetingSubject: string
+): Promise<void> {
+  const context = createCorrelationContext("DevOps.CommentOnDuplicate", { workItemId });
+
+  await withErrorHandling(
+    async () => {
+      const workItemTracking = await connection.getWorkItemTrackingApi();
+      await workItemTracking.addComment(
+        { text: formatDuplicateComment(task, meetingSubject, context.correlationId) },
+        config.azureDevOps.project,
+        workItemId
+      );
+      telemetry.info(`Commented on likely duplicate #${workItemId}`, { title: task.title });
+    },
+    context,
+    { enableRetry: true }
+  );
+}
+
+/**
+ * Formats the work item comment for an action item that was raised again
+ */
+function formatDuplicateComment(task: ActionItem, meetingSubject: string, correlationId: string): string {
+  let html = `<div><strong>🤖 ActionAgent:</strong> raised again in "${escapeHtml(meetingSubject)}"</div>`;
+  html += `<p><strong>${escapeHtml(task.title)}</strong> (${escapeHtml(task.assignedTo)}, ${task.priority} priority)</p>`;
+
+  if (task.description) {
+    html += `<p>${escapeHtml(task.description)}</p>`;
+  }
+  if (task.deadline) {
+    html += `<p><strong>Deadline:</strong> ${escapeHtml(task.deadline)}${task.deadlineDate ? ` (${task.deadlineDate})` : ""}</p>`;
+  }
+  if (task.source) {
+    html += formatSource(task.source);
+  }
+
+  html += `<p style="color: #888; font-size: 10px;">Correlation ID: ${correlationId}</p>`;
+  return html;
+}
+
 /**
  * Get list of available work item types in the project
  */
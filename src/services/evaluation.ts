@@ -0,0 +1,437 @@
+/**
+ * Extraction Evaluation
+ * Scores extractActionItems against golden transcripts, so prompt and model
+ * changes can be compared before they ship
+ *
+ * Features:
+ * - Cases are "<name>.vtt" transcripts with "<name>.expected.json" labels
+ *   (see evals/README.md)
+ * - Fuzzy one-to-one matching of extracted and expected items by title
+ * - Precision, recall, F1, assignee accuracy and priority accuracy,
+ *   per case and micro-averaged over all cases
+ * - Recorded provider: live responses are saved once and replayed offline,
+ *   so runs are reproducible and free
+ * - Reports as JSON and as a text table, with deltas against a baseline
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import { ActionItem, ActionItemsResponse } from "../models/actionItem";
+import { Transcript } from "../models/transcript";
+import { ActionAgentError, createCorrelationContext } from "../utils/errorHandling";
+import { textSimilarity } from "../utils/similarity";
+import { telemetry } from "../utils/telemetry";
+import { parseVtt } from "../utils/transcriptParser";
+import { extractActionItems, getLlmProvider } from "./aiService";
+import { ChatCompletionRequest, ChatCompletionResult, LlmProvider } from "./llmProvider";
+import { PromptVariables } from "./promptTemplates";
+
+/**
+ * Title similarity (0-1) at which an extracted item counts as the expected one
+ */
+const MATCH_THRESHOLD = 0.5;
+
+/**
+ * A labelled action item
+ */
+export interface ExpectedActionItem {
+  title: string;
+  assignedTo?: string;
+  priority?: ActionItem["priority"];
+  type?: ActionItem["type"];
+}
+
+/**
+ * A golden transcript and the items it should produce
+ */
+export interface EvaluationCase {
+  name: string;
+  transcript: Transcript;
+  /** Prompt template for this case (default: PROMPT_TEMPLATE) */
+  templateName?: string;
+  variables?: PromptVariables;
+  expected: ExpectedActionItem[];
+}
+
+/**
+ * Evaluation metrics; null when there was nothing to measure
+ */
+export interface EvaluationScores {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  /** Share of matched items with the expected assignee */
+  assigneeAccuracy: number | null;
+  /** Share of matched items with the expected priority */
+  priorityAccuracy: number | null;
+}
+
+/**
+ * Item counts behind the scores
+ */
+export interface EvaluationCounts {
+  expected: number;
+  extracted: number;
+  matched: number;
+  assigneeCorrect: number;
+  priorityCorrect: number;
+}
+
+/**
+ * Outcome of one case
+ */
+export interface CaseResult extends EvaluationScores, EvaluationCounts {
+  name: string;
+  promptVersion?: string;
+  extractionMethod?: ActionItemsResponse["extractionMethod"];
+  /** Expected titles that were not extracted */
+  missed: string[];
+  /** Extracted titles that were not expected */
+  unexpected: string[];
+  error?: string;
+}
+
+/**
+ * Outcome of a run over all cases
+ */
+export interface EvaluationReport {
+  startedAt: string;
+  /** EXTRACTION_MODE; "rules" scores the offline extractor instead of the model */
+  extractionMode: string;
+  provider: string;
+  model: string;
+  temperature: number;
+  /** Prompt templates used, e.g. ["default@1.0.0", "ops@1.0.0"] */
+  promptVersions: string[];
+  cases: CaseResult[];
+  totals: EvaluationScores & EvaluationCounts;
+}
+
+/**
+ * Directory the cases are read from
+ */
+export function getEvaluationDir(): string {
+  return path.resolve(__dirname, "..", "..", "evals", "cases");
+}
+
+/**
+ * Loads every "<name>.vtt" with its "<name>.expected.json" labels
+ */
+export function loadEvaluationCases(dir: string = getEvaluationDir()): EvaluationCase[] {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Evaluation cases not found (looked in ${dir})`);
+  }
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".vtt"))
+    .sort()
+    .map((file) => {
+      const name = file.slice(0, -".vtt".length);
+      const labelsFile = path.join(dir, `${name}.expected.json`);
+      if (!fs.existsSync(labelsFile)) {
+        throw new Error(`Evaluation case ${name} has no ${name}.expected.json`);
+      }
+
+      const labels = JSON.parse(fs.readFileSync(labelsFile, "utf-8")) as {
+        template?: string;
+        variables?: PromptVariables;
+        actionItems?: ExpectedActionItem[];
+      };
+      if (!Array.isArray(labels.actionItems)) {
+        throw new Error(`Evaluation case ${name}: "actionItems" must be an array`);
+      }
+
+      return {
+        name,
+        transcript: parseVtt(fs.readFileSync(path.join(dir, file), "utf-8")),
+        templateName: labels.template,
+        variables: labels.variables,
+        expected: labels.actionItems,
+      };
+    });
+}
+
+/**
+ * Pairs expected and extracted items one-to-one, most similar titles first
+ * @returns Index pairs [expected, extracted]
+ */
+export function matchActionItems(
+  expected: ExpectedActionItem[],
+  extracted: ActionItem[],
+  threshold: number = MATCH_THRESHOLD
+): Array<[number, number]> {
+  const candidates: Array<{ pair: [number, number]; similarity: number }> = [];
+  expected.forEach((item, e) => {
+    extracted.forEach((actual, a) => {
+      const similarity = textSimilarity(item.title, actual.title);
+      if (similarity >= threshold) {
+        candidates.push({ pair: [e, a], similarity });
+      }
+    });
+  });
+  candidates.sort((a, b) => b.similarity - a.similarity);
+
+  const usedExpected = new Set<number>();
+  const usedExtracted = new Set<number>();
+  const pairs: Array<[number, number]> = [];
+  for (const { pair } of candidates) {
+    if (!usedExpected.has(pair[0]) && !usedExtracted.has(pair[1])) {
+      usedExpected.add(pair[0]);
+      usedExtracted.add(pair[1]);
+      pairs.push(pair);
+    }
+  }
+  return pairs.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Scores one extraction result against its labels
+ */
+export function scoreCase(
+  name: string,
+  expected: ExpectedActionItem[],
+  response: ActionItemsResponse
+): CaseResult {
+  const extracted = response.actionItems;
+  const pairs = matchActionItems(expected, extracted);
+  const matchedExpected = new Set(pairs.map(([e]) => e));
+  const matchedExtracted = new Set(pairs.map(([, a]) => a));
+
+  const counts: EvaluationCounts = {
+    expected: expected.length,
+    extracted: extracted.length,
+    matched: pairs.length,
+    assigneeCorrect: pairs.filter(([e, a]) =>
+      sameAssignee(expected[e].assignedTo, extracted[a].assignedTo)
+    ).length,
+    priorityCorrect: pairs.filter(
+      ([e, a]) => (expected[e].priority || "Medium") === extracted[a].priority
+    ).length,
+  };
+
+  return {
+    name,
+    promptVersion: response.promptVersion,
+    extractionMethod: response.extractionMethod,
+    ...counts,
+    ...computeScores(counts),
+    missed: expected.filter((_, e) => !matchedExpected.has(e)).map((item) => item.title),
+    unexpected: extracted.filter((_, a) => !matchedExtracted.has(a)).map((item) => item.title),
+  };
+}
+
+/**
+ * Runs every case through extractActionItems with the active LLM provider
+ * Cached results are bypassed; a failing case is reported, not fatal
+ * @param options.templateName - Template for all cases, to compare prompt versions
+ */
+export async function runEvaluation(
+  cases: EvaluationCase[],
+  options: { templateName?: string } = {}
+): Promise<EvaluationReport> {
+  const provider = getLlmProvider();
+  const startedAt = new Date().toISOString();
+  const results: CaseResult[] = [];
+
+  for (const evaluationCase of cases) {
+    try {
+      const response = await extractActionItems(evaluationCase.transcript, {
+        templateName: options.templateName || evaluationCase.templateName,
+        variables: evaluationCase.variables,
+        refresh: true,
+      });
+      results.push(scoreCase(evaluationCase.name, evaluationCase.expected, response));
+    } catch (error) {
+      telemetry.warn("Evaluation case failed", { name: evaluationCase.name, error: String(error) });
+      results.push({
+        ...scoreCase(evaluationCase.name, evaluationCase.expected, { actionItems: [] }),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const counts: EvaluationCounts = {
+    expected: sum(results, "expected"),
+    extracted: sum(results, "extracted"),
+    matched: sum(results, "matched"),
+    assigneeCorrect: sum(results, "assigneeCorrect"),
+    priorityCorrect: sum(results, "priorityCorrect"),
+  };
+
+  return {
+    startedAt,
+    extractionMode: config.extraction.mode,
+    provider: provider.name,
+    model: provider.model,
+    temperature: config.llm.temperature,
+    promptVersions: Array.from(
+      new Set(results.map((result) => result.promptVersion).filter((v): v is string => !!v))
+    ).sort(),
+    cases: results,
+    totals: { ...counts, ...computeScores(counts) },
+  };
+}
+
+/**
+ * Text table of a report; with a baseline, adds the change in each total
+ */
+export function formatEvaluationTable(
+  report: EvaluationReport,
+  baseline?: EvaluationReport
+): string {
+  const header = ["Case", "Prompt", "Items", "Precision", "Recall", "F1", "Assignee", "Priority"];
+  const row = (label: string, prompt: string, result: EvaluationScores & EvaluationCounts) => [
+    label,
+    prompt,
+    `${result.matched}/${result.expected} (${result.extracted})`,
+    formatScore(result.precision),
+    formatScore(result.recall),
+    formatScore(result.f1),
+    formatScore(result.assigneeAccuracy),
+    formatScore(result.priorityAccuracy),
+  ];
+
+  const rows = report.cases.map((result) =>
+    row(
+      result.error ? `${result.name} (error)` : result.name,
+      result.promptVersion || "-",
+      result
+    )
+  );
+  rows.push(row("TOTAL", report.promptVersions.join(", ") || "-", report.totals));
+
+  if (baseline) {
+    const metrics: Array<keyof EvaluationScores> = [
+      "precision",
+      "recall",
+      "f1",
+      "assigneeAccuracy",
+      "priorityAccuracy",
+    ];
+    rows.push([
+      "Δ vs baseline",
+      baseline.promptVersions.join(", ") || "-",
+      `${report.totals.matched - baseline.totals.matched >= 0 ? "+" : ""}${report.totals.matched - baseline.totals.matched}`,
+      ...metrics.map((metric) => formatDelta(report.totals[metric], baseline.totals[metric])),
+    ]);
+  }
+
+  const widths = header.map((_, column) =>
+    Math.max(header[column].length, ...rows.map((cells) => cells[column].length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+
+  return [
+    line(header),
+    widths.map((width) => "-".repeat(width)).join("  "),
+    ...rows.map(line),
+  ].join("\n");
+}
+
+/**
+ * Provider that replays recorded responses, recording them first when given a live provider
+ * Recordings are keyed by a hash of model, messages, temperature and JSON mode,
+ * so a changed prompt needs a new recording
+ */
+export class RecordedLlmProvider implements LlmProvider {
+  readonly name: LlmProvider["name"];
+  readonly model: string;
+
+  constructor(
+    private readonly dir: string,
+    private readonly live?: LlmProvider
+  ) {
+    this.name = live?.name ?? config.llm.provider;
+    this.model = live?.model ?? config.llm.model;
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const file = path.join(this.dir, `${this.getRecordingKey(request)}.json`);
+
+    if (this.live) {
+      const result = await this.live.complete(request);
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(file, `${JSON.stringify(result, null, 2)}\n`, "utf-8");
+      return result;
+    }
+
+    try {
+      return JSON.parse(await fs.promises.readFile(file, "utf-8")) as ChatCompletionResult;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      throw new ActionAgentError(
+        `No recorded response for this request in ${this.dir}; record one with "npm run eval -- --record"`,
+        createCorrelationContext("Eval.Replay", { recording: path.basename(file) }),
+        { isRetryable: false }
+      );
+    }
+  }
+
+  private getRecordingKey(request: ChatCompletionRequest): string {
+    return createHash("sha256")
+      .update(
+        JSON.stringify([
+          this.model,
+          request.messages,
+          request.temperature ?? null,
+          request.jsonMode ?? false,
+        ])
+      )
+      .digest("hex");
+  }
+}
+
+function computeScores(counts: EvaluationCounts): EvaluationScores {
+  const precision = ratio(counts.matched, counts.extracted);
+  const recall = ratio(counts.matched, counts.expected);
+  return {
+    precision,
+    recall,
+    f1:
+      precision === null || recall === null
+        ? null
+        : precision + recall === 0
+          ? 0
+          : (2 * precision * recall) / (precision + recall),
+    assigneeAccuracy: ratio(counts.assigneeCorrect, counts.matched),
+    priorityAccuracy: ratio(counts.priorityCorrect, counts.matched),
+  };
+}
+
+/**
+ * Same person, allowing a first name for a full name ("Sarah" / "Sarah Johnson")
+ */
+function sameAssignee(expected: string | undefined, actual: string | undefined): boolean {
+  const tokens = (name: string | undefined): string[] =>
+    (name || "Unassigned").toLowerCase().match(/[a-z0-9]+/g) || [];
+  const left = tokens(expected);
+  const right = tokens(actual);
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  return shorter.every((token) => longer.includes(token));
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+function sum(results: CaseResult[], key: keyof EvaluationCounts): number {
+  return results.reduce((total, result) => total + result[key], 0);
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? "-" : score.toFixed(2);
+}
+
+function formatDelta(current: number | null, baseline: number | null): string {
+  if (current === null || baseline === null) {
+    return "-";
+  }
+  const delta = current - baseline;
+  return `${delta >= 0 ? "+" : ""}${delta.toFixed(2)}`;
+}
@@ -0,0 +1,242 @@
+/**
+ * Extraction Cache
+ * Content-addressed cache for LLM extraction results, so reprocessing a
+ * meeting is cheap and gives the same answer
+ *
+ * Stores (EXTRACTION_CACHE):
+ * - "memory": per-process Map (default), bounded by EXTRACTION_CACHE_MAX_ENTRIES
+ * - "file": one JSON file per key in EXTRACTION_CACHE_DIR, survives restarts
+ *   and lets the demo replay without network access
+ * - "none": caching disabled
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { config } from "../config";
+import { ActionItemsResponse } from "../models/actionItem";
+import { telemetry } from "../utils/telemetry";
+
+/**
+ * A cached value and when it stops being valid
+ */
+export interface CacheEntry<T> {
+  value: T;
+  /** Epoch milliseconds; undefined never expires */
+  expiresAt?: number;
+}
+
+/**
+ * Contract every cache backend implements
+ */
+export interface CacheStore<T> {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry<T> | undefined>;
+  set(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Per-process cache; entries are copied so callers cannot mutate cached results
+ * Expired entries are swept on every write, and the least recently used entry
+ * is evicted once maxEntries is reached
+ */
+export class MemoryCacheStore<T> implements CacheStore<T> {
+  readonly name = "memory";
+  // In insertion order; reads move an entry to the end
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private readonly maxEntries: number = config.cache.maxEntries) {}
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry && structuredClone(entry);
+  }
+
+  async set(key: string, entry: CacheEntry<T>): Promise<void> {
+    const now = Date.now();
+    for (const [existingKey, existing] of this.entries) {
+      if (existing.expiresAt !== undefined && existing.expiresAt <= now) {
+        this.entries.delete(existingKey);
+      }
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, structuredClone(entry));
+    while (this.entries.size > Math.max(this.maxEntries, 1)) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * One JSON file per key; keys must be hex digests
+ */
+export class FileCacheStore<T> implements CacheStore<T> {
+  readonly name = "file";
+
+  constructor(private readonly dir: string) {}
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(key), "utf-8")) as CacheEntry<T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry<T>): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.fileFor(key), JSON.stringify(entry), "utf-8");
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    const files = await fs.readdir(this.dir).catch(() => [] as string[]);
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => fs.rm(path.join(this.dir, file), { force: true }))
+    );
+  }
+
+  private fileFor(key: string): string {
+    if (!/^[a-f0-9]+$/.test(key)) {
+      throw new Error(`Invalid cache key: ${key}`);
+    }
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+/**
+ * Everything that determines an extraction result
+ */
+export interface ExtractionCacheKeyParts {
+  transcript: string;
+  /** Rendered prompt messages (template, variables, examples, calibration) */
+  prompt: unknown;
+  promptVersion: string;
+  model: string;
+  temperature: number;
+}
+
+// The active store; null when caching is disabled
+let store: CacheStore<ActionItemsResponse> | null | undefined;
+
+/**
+ * Creates the store selected by EXTRACTION_CACHE
+ */
+export function createExtractionCacheStore(): CacheStore<ActionItemsResponse> | null {
+  switch (config.cache.store) {
+    case "none":
+      return null;
+    case "file":
+      return new FileCacheStore(path.resolve(config.cache.dir));
+    case "memory":
+    default:
+      return new MemoryCacheStore();
+  }
+}
+
+/**
+ * Replaces the active store (e.g. for tests or a shared cache); null disables caching
+ */
+export function setExtractionCacheStore(cacheStore: CacheStore<ActionItemsResponse> | null): void {
+  store = cacheStore;
+}
+
+function getStore(): CacheStore<ActionItemsResponse> | null {
+  if (store === undefined) {
+    store = createExtractionCacheStore();
+  }
+  return store;
+}
+
+/**
+ * SHA-256 of the key parts
+ */
+export function computeExtractionCacheKey(parts: ExtractionCacheKeyParts): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([parts.transcript, parts.prompt, parts.promptVersion, parts.model, parts.temperature])
+    )
+    .digest("hex");
+}
+
+/**
+ * Cached result for a key, or undefined on a miss, an expired entry or a store error
+ */
+export async function readCachedExtraction(key: string): Promise<ActionItemsResponse | undefined> {
+  const cacheStore = getStore();
+  if (!cacheStore) {
+    return undefined;
+  }
+
+  try {
+    const entry = await cacheStore.get(key);
+    if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await cacheStore.delete(key);
+    } else if (entry) {
+      telemetry.trackMetric("AI.CacheHit", 1, "count");
+      return entry.value;
+    }
+  } catch (error) {
+    telemetry.warn("Extraction cache read failed", { store: cacheStore.name, error: String(error) });
+  }
+
+  telemetry.trackMetric("AI.CacheMiss", 1, "count");
+  return undefined;
+}
+
+/**
+ * Stores a result for EXTRACTION_CACHE_TTL_SECONDS; store errors are logged, not thrown
+ */
+export async function writeCachedExtraction(key: string, value: ActionItemsResponse): Promise<void> {
+  const cacheStore = getStore();
+  if (!cacheStore) {
+    return;
+  }
+
+  const ttlMs = config.cache.ttlSeconds * 1000;
+  try {
+    await cacheStore.set(key, {
+      value,
+      expiresAt: ttlMs > 0 ? Date.now() + ttlMs : undefined,
+    });
+  } catch (error) {
+    telemetry.warn("Extraction cache write failed", { store: cacheStore.name, error: String(error) });
+  }
+}
+
+/**
+ * Removes one cached result
+ */
+export async function invalidateCachedExtraction(key: string): Promise<void> {
+  await getStore()?.delete(key);
+}
+
+/**
+ * Removes every cached result
+ */
+export async function clearExtractionCache(): Promise<void> {
+  await getStore()?.clear();
+}
@@ -0,0 +1,379 @@
+/**
+ * Field Mapping
+ * Project conventions for created work items (required custom fields such as
+ * Custom.Component, cost centers, tagging rules), declared in a JSON file
+ * (AZURE_DEVOPS_FIELD_MAPPING_FILE) per project and work item type
+ *
+ * Features:
+ * - Static values and {{item.*}} / {{meeting.*}} templates per field
+ * - Value transforms (trim, upper, lower, slug, number, date) and lookup tables
+ * - Extra tags, which may use the same templates
+ * - "*" rules apply to every project or type; more specific rules win per field
+ * - The file is checked when loaded, and each item's values before it is created
+ */
+
+import * as fs from "fs";
+import { config } from "../config";
+import { ActionItem } from "../models/actionItem";
+import { telemetry } from "../utils/telemetry";
+
+/**
+ * Transforms a field rule may apply, in the order listed on the rule
+ */
+export const FIELD_TRANSFORMS = ["trim", "upper", "lower", "slug", "number", "date"] as const;
+
+export type FieldTransform = (typeof FIELD_TRANSFORMS)[number];
+
+/**
+ * Variables a field or tag template may reference
+ */
+export const MAPPING_VARIABLES = [
+  "item.title",
+  "item.type",
+  "item.priority",
+  "item.assignedTo",
+  "item.description",
+  "item.deadline",
+  "item.deadlineDate",
+  "item.severity",
+  "item.estimate",
+  "item.speaker",
+  "item.promptVersion",
+  "meeting.id",
+  "meeting.seriesId",
+  "meeting.subject",
+  "project",
+  "workItemType",
+] as const;
+
+export type MappingVariable = (typeof MAPPING_VARIABLES)[number];
+
+type FieldValue = string | number | boolean;
+
+/**
+ * How one field's value is produced
+ */
+export interface FieldRule {
+  /** Static value */
+  value?: FieldValue;
+  /** Value built from variables, e.g. "{{meeting.subject}}"; used when value is unset */
+  template?: string;
+  transform?: FieldTransform | FieldTransform[];
+  /** Lookup applied after the transforms; values not listed are kept */
+  map?: Record<string, FieldValue>;
+  /** Fail the item instead of leaving the field out when the value comes out empty */
+  required?: boolean;
+}
+
+/**
+ * Fields and tags for one work item type
+ */
+export interface TypeMapping {
+  /** Field reference name → static value or rule */
+  fields?: Record<string, FieldValue | FieldRule>;
+  /** Added to ActionAgent's own tags */
+  tags?: string[];
+}
+
+/**
+ * Project name (or "*") → work item type (or "*") → mapping
+ * Types may be given by their Azure DevOps name ("Product Backlog Item") or
+ * their ActionAgent name ("User Story")
+ */
+export type FieldMapping = Record<string, Record<string, TypeMapping>>;
+
+/**
+ * What a mapping is resolved for
+ */
+export interface MappingInput {
+  task: ActionItem;
+  workItemType: string;
+  /** Resolved deadline (YYYY-MM-DD), if the item has one */
+  deadlineDate?: string;
+  meetingId?: string;
+  seriesId?: string;
+  meetingSubject?: string;
+}
+
+/**
+ * Values to write on one work item
+ */
+export interface MappedFields {
+  fields: Record<string, FieldValue>;
+  tags: string[];
+  /** Problems that stop the item from being created, one per field */
+  errors: string[];
+}
+
+// Parsed mappings by file path
+const cache = new Map<string, FieldMapping>();
+
+/**
+ * Loads (and caches) the field mapping; no file means no mapping
+ * @throws Error when the file is missing or malformed
+ */
+export function loadFieldMapping(file: string = config.azureDevOps.fieldMappingFile): FieldMapping {
+  if (!file) {
+    return {};
+  }
+
+  const cached = cache.get(file);
+  if (cached) {
+    return cached;
+  }
+
+  let mapping: unknown;
+  try {
+    mapping = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(`Could not load field mapping ${file}: ${(error as Error).message}`);
+  }
+
+  const problems = validateFieldMapping(mapping);
+  if (problems.length > 0) {
+    throw new Error(`Invalid field mapping ${file}:\n- ${problems.join("\n- ")}`);
+  }
+
+  cache.set(file, mapping as FieldMapping);
+  telemetry.debug("Loaded field mapping", { file, projects: Object.keys(mapping as FieldMapping) });
+  return mapping as FieldMapping;
+}
+
+/**
+ * Clears loaded mappings so an edited file is picked up
+ */
+export function clearFieldMappingCache(): void {
+  cache.clear();
+}
+
+/**
+ * Fields and tags the mapping sets on an item for the configured project
+ * Rules apply from least to most specific: "*" project before the project,
+ * "*" type before the ActionAgent type before the Azure DevOps type
+ */
+export function resolveFieldMapping(
+  input: MappingInput,
+  mapping: FieldMapping = loadFieldMapping()
+): MappedFields {
+  const result: MappedFields = { fields: {}, tags: [], errors: [] };
+  const rules: Record<string, FieldValue | FieldRule> = {};
+  const tags: string[] = [];
+
+  const typeKeys = Array.from(new Set(["*", input.task.type, input.workItemType]));
+  for (const project of ["*", config.azureDevOps.project]) {
+    for (const type of typeKeys) {
+      const typeMapping = mapping[project]?.[type];
+      Object.assign(rules, typeMapping?.fields);
+      tags.push(...(typeMapping?.tags || []));
+    }
+  }
+
+  const variables = getVariables(input);
+  for (const [field, rule] of Object.entries(rules)) {
+    try {
+      const value = resolveField(rule, variables);
+      if (value !== undefined) {
+        result.fields[field] = value;
+      } else if (typeof rule === "object" && rule.required) {
+        result.errors.push(`${field} is required by the field mapping but has no value`);
+      }
+    } catch (error) {
+      result.errors.push(`${field}: ${(error as Error).message}`);
+    }
+  }
+
+  result.tags = Array.from(
+    new Set(
+      tags
+        // ";" separates tags in System.Tags
+        .map((tag) => renderTemplate(tag, variables).replace(/;/g, ",").trim())
+        .filter(Boolean)
+    )
+  );
+  return result;
+}
+
+/**
+ * Problems with a parsed mapping file, empty when it is valid
+ */
+function validateFieldMapping(mapping: unknown): string[] {
+  if (!isObject(mapping)) {
+    return ["expected an object of projects"];
+  }
+
+  const problems: string[] = [];
+  for (const [project, types] of Object.entries(mapping)) {
+    if (!isObject(types)) {
+      problems.push(`${project}: expected an object of work item types`);
+      continue;
+    }
+
+    for (const [type, typeMapping] of Object.entries(types)) {
+      const where = `${project} → ${type}`;
+      if (!isObject(typeMapping)) {
+        problems.push(`${where}: expected { fields, tags }`);
+        continue;
+      }
+
+      const { fields = {}, tags = [] } = typeMapping as TypeMapping;
+      if (!isObject(fields)) {
+        problems.push(`${where}: fields must be an object`);
+      } else {
+        for (const [field, rule] of Object.entries(fields)) {
+          problems.push(...validateRule(`${where} → ${field}`, field, rule));
+        }
+      }
+
+      if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string")) {
+        problems.push(`${where}: tags must be an array of strings`);
+      } else {
+        problems.push(...tags.flatMap((tag) => validateTemplate(`${where} → tags`, tag)));
+      }
+    }
+  }
+  return problems;
+}
+
+function validateRule(where: string, field: string, rule: unknown): string[] {
+  if (field === "System.Tags") {
+    return [`${where}: use "tags" to add tags`];
+  }
+  if (isFieldValue(rule)) {
+    return [];
+  }
+  if (!isObject(rule)) {
+    return [`${where}: expected a value or a rule`];
+  }
+
+  const { value, template, transform = [], map = {} } = rule as FieldRule;
+  const problems: string[] = [];
+  if (value === undefined && template === undefined) {
+    problems.push(`${where}: set value or template`);
+  }
+  if (value !== undefined && !isFieldValue(value)) {
+    problems.push(`${where}: value must be a string, number or boolean`);
+  }
+  if (template !== undefined) {
+    problems.push(
+      ...(typeof template === "string"
+        ? validateTemplate(where, template)
+        : [`${where}: template must be a string`])
+    );
+  }
+
+  const unknown = (Array.isArray(transform) ? transform : [transform]).filter(
+    (name) => !(FIELD_TRANSFORMS as readonly string[]).includes(name)
+  );
+  if (unknown.length > 0) {
+    problems.push(`${where}: unknown transforms ${unknown.join(", ")} (use ${FIELD_TRANSFORMS.join(", ")})`);
+  }
+  if (!isObject(map) || !Object.values(map).every(isFieldValue)) {
+    problems.push(`${where}: map must be an object of values`);
+  }
+  return problems;
+}
+
+function validateTemplate(where: string, template: string): string[] {
+  const unknown = (template.match(/\{\{\s*([\w.]+)\s*\}\}/g) || [])
+    .map((placeholder) => placeholder.replace(/[{}\s]/g, ""))
+    .filter((variable) => !(MAPPING_VARIABLES as readonly string[]).includes(variable));
+  return unknown.length > 0 ? [`${where}: unknown variables ${unknown.join(", ")}`] : [];
+}
+
+/**
+ * A field's value, or undefined when it comes out empty
+ * @throws Error when a transform cannot convert the value
+ */
+function resolveField(
+  rule: FieldValue | FieldRule,
+  variables: Record<MappingVariable, string>
+): FieldValue | undefined {
+  if (isFieldValue(rule)) {
+    return rule;
+  }
+
+  let value: FieldValue =
+    rule.value !== undefined ? rule.value : renderTemplate(rule.template || "", variables).trim();
+  if (value === "") {
+    return undefined;
+  }
+
+  for (const transform of Array.isArray(rule.transform) ? rule.transform : rule.transform ? [rule.transform] : []) {
+    value = applyTransform(transform, value);
+  }
+
+  const mapped = rule.map?.[String(value)];
+  return mapped !== undefined ? mapped : value;
+}
+
+function applyTransform(transform: FieldTransform, value: FieldValue): FieldValue {
+  const text = String(value).trim();
+  switch (transform) {
+    case "trim":
+      return text;
+    case "upper":
+      return text.toUpperCase();
+    case "lower":
+      return text.toLowerCase();
+    case "slug":
+      return text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+    case "number": {
+      const number = Number(text);
+      if (text === "" || Number.isNaN(number)) {
+        throw new Error(`"${text}" is not a number`);
+      }
+      return number;
+    }
+    case "date": {
+      // Plain dates use midday UTC, like the target date (see buildPatchDocument)
+      const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T12:00:00.000Z` : text);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`"${text}" is not a date`);
+      }
+      return date.toISOString();
+    }
+  }
+}
+
+/**
+ * Substitutes variables; missing values render as ""
+ */
+function renderTemplate(template: string, variables: Record<MappingVariable, string>): string {
+  return template.replace(
+    /\{\{\s*([\w.]+)\s*\}\}/g,
+    (_, variable: MappingVariable) => variables[variable] || ""
+  );
+}
+
+function getVariables(input: MappingInput): Record<MappingVariable, string> {
+  const { task } = input;
+  return {
+    "item.title": task.title,
+    "item.type": task.type,
+    "item.priority": task.priority,
+    "item.assignedTo": task.assignedTo === "Unassigned" ? "" : task.assignedTo,
+    "item.description": task.description || "",
+    "item.deadline": task.deadline || "",
+    "item.deadlineDate": input.deadlineDate || task.deadlineDate || "",
+    "item.severity": task.bugDetails?.severity || "",
+    "item.estimate": task.estimate ? String(task.estimate.value) : "",
+    "item.speaker": task.source?.speaker || "",
+    "item.promptVersion": task.promptVersion || "",
+    "meeting.id": input.meetingId || "",
+    "meeting.seriesId": input.seriesId || "",
+    "meeting.subject": input.meetingSubject || "",
+    project: config.azureDevOps.project,
+    workItemType: input.workItemType,
+  };
+}
+
+function isFieldValue(value: unknown): value is FieldValue {
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
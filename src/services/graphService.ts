@@ -5,6 +5,7 @@
  * Required Permissions (Application):
  * - OnlineMeetings.Read.All
  * - OnlineMeetingTranscript.Read.All
+ * - Calendars.Read (to find the series of recurring meetings)
  * - User.Read.All (for identity resolution)
  */
 
@@ -18,6 +19,8 @@ import {
   ActionAgentError 
 } from "../utils/errorHandling";
 import { telemetry } from "../utils/telemetry";
+import { parseVtt } from "../utils/transcriptParser";
+import { Transcript } from "../models/transcript";
 import "isomorphic-fetch";
 
 // Initialize credentials using Client Secret flow
@@ -61,12 +64,12 @@ export interface TranscriptInfo {
  * Retrieves the transcript content for a specific meeting
  * @param meetingId - The unique identifier of the online meeting
  * @param userId - The user ID of the meeting organizer (required for application permissions)
- * @returns The transcript content as plain text
+ * @returns The parsed transcript (no utterances if none is available)
  */
 export async function getMeetingTranscript(
   meetingId: string,
   userId: string
-): Promise<string> {
+): Promise<Transcript> {
   const context = createCorrelationContext("Graph.GetTranscript", { meetingId, userId });
   
   return withErrorHandling(
@@ -80,7 +83,7 @@ export async function getMeetingTranscript(
 
       if (!transcripts.value || transcripts.value.length === 0) {
         telemetry.warn("No transcripts found for meeting", { meetingId });
-        return "";
+        return { utterances: [] };
       }
 
       // Get the most recent transcript
@@ -99,73 +102,25 @@ export async function getMeetingTranscript(
       // Content may be a string or need to be converted
       const textContent = typeof content === "string" ? content : String(content);
       
-      // Parse VTT to extract clean text (remove timestamps and headers)
-      const cleanedContent = parseVttToText(textContent);
+      // Parse VTT into structured utterances (speaker, start, end, text)
+      const transcript = parseVtt(textContent);
       
       telemetry.info("Transcript fetched successfully", { 
         meetingId, 
         rawLength: textContent.length,
-        cleanedLength: cleanedContent.length 
+        utteranceCount: transcript.utterances.length 
       });
       
-      return cleanedContent;
+      return transcript;
     },
     context,
     { enableRetry: true }
   );
 }
 
-/**
- * Parse VTT format to clean text
- * Removes WEBVTT header, timestamps, and extracts just the spoken text
- */
-function parseVttToText(vttContent: string): string {
-  if (!vttContent) return "";
-  
-  const lines = vttContent.split("\n");
-  const textLines: string[] = [];
-  let currentSpeaker = "";
-  
-  for (const line of lines) {
-    const trimmed = line.trim();
-    
-    // Skip header and empty lines
-    if (!trimmed || trimmed === "WEBVTT" || trimmed.startsWith("NOTE")) {
-      continue;
-    }
-    
-    // Skip timestamp lines (format: 00:00:00.000 --> 00:00:00.000)
-    if (trimmed.includes(" --> ")) {
-      continue;
-    }
-    
-    // Skip cue identifiers (typically numeric)
-    if (/^\d+$/.test(trimmed)) {
-      continue;
-    }
-    
-    // Extract speaker from <v Speaker Name>text</v> format
-    const speakerMatch = trimmed.match(/<v ([^>]+)>(.+?)(?:<\/v>)?$/);
-    if (speakerMatch) {
-      const speaker = speakerMatch[1];
-      const text = speakerMatch[2].replace(/<\/v>$/, "");
-      
-      if (speaker !== currentSpeaker) {
-        currentSpeaker = speaker;
-        textLines.push(`\n${speaker}:`);
-      }
-      textLines.push(text);
-    } else if (trimmed.length > 0) {
-      // Regular text line
-      textLines.push(trimmed);
-    }
-  }
-  
-  return textLines.join(" ").replace(/\s+/g, " ").trim();
-}
-
 /**
  * Gets meeting details including subject and participants
+ * seriesId is the calendar series of a recurring meeting, or "" for one-off meetings
  * @param meetingId - The unique identifier of the online meeting
  * @param userId - The user ID of the meeting organizer
  */
@@ -178,6 +133,7 @@ export async function getMeetingDetails(
   endDateTime: string;
   participants: string[];
   organizerId: string;
+  seriesId: string;
 }> {
   const context = createCorrelationContext("Graph.GetMeetingDetails", { meetingId });
   
@@ -185,7 +141,7 @@ export async function getMeetingDetails(
     async () => {
       const meeting = await graphClient
         .api(`/users/${userId}/onlineMeetings/${meetingId}`)
-        .select("subject,startDateTime,endDateTime,participants")
+        .select("subject,startDateTime,endDateTime,participants,joinWebUrl")
         .get();
 
       return {
@@ -198,6 +154,7 @@ export async function getMeetingDetails(
               a.upn || a.emailAddress?.address
           ) || [],
         organizerId: userId,
+        seriesId: await getSeriesId(userId, meeting),
       };
     },
     context,
@@ -205,6 +162,40 @@ export async function getMeetingDetails(
   );
 }
 
+/**
+ * The series master ID of the calendar event behind an online meeting
+ * Online meetings carry no recurrence themselves (and one-off meetings in the
+ * same chat share its thread), so the organizer's calendar is searched for the
+ * event with the same join URL
+ * @returns "" when the meeting is not an occurrence of a series or the event cannot be read
+ */
+async function getSeriesId(
+  userId: string,
+  meeting: { startDateTime?: string; endDateTime?: string; joinWebUrl?: string }
+): Promise<string> {
+  if (!meeting.startDateTime || !meeting.endDateTime || !meeting.joinWebUrl) {
+    return "";
+  }
+
+  try {
+    const events = await graphClient
+      .api(`/users/${userId}/calendarView`)
+      .query({ startDateTime: meeting.startDateTime, endDateTime: meeting.endDateTime })
+      .select("type,seriesMasterId,onlineMeeting")
+      .get();
+
+    const joinUrl = decodeURIComponent(meeting.joinWebUrl);
+    const event = (events.value || []).find(
+      (candidate: { onlineMeeting?: { joinUrl?: string } }) =>
+        !!candidate.onlineMeeting?.joinUrl && decodeURIComponent(candidate.onlineMeeting.joinUrl) === joinUrl
+    );
+    return event?.seriesMasterId || "";
+  } catch (error) {
+    telemetry.warn("Could not read the calendar event for the meeting series", { error: String(error) });
+    return "";
+  }
+}
+
 /**
  * Lists recent meetings for a user
  * @param userId - The user ID to list meetings for
@@ -0,0 +1,183 @@
+/**
+ * LLM Provider Abstraction
+ * Decouples the extraction pipeline from a specific model vendor
+ *
+ * Providers:
+ * - Azure OpenAI (deployment-based)
+ * - OpenAI platform API
+ * - Generic OpenAI-compatible servers (self-hosted / local models)
+ */
+
+import OpenAI, { AzureOpenAI } from "openai";
+import { config, LlmProviderName } from "../config";
+
+/**
+ * A single chat message sent to the model
+ */
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Provider-neutral chat completion request
+ */
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the model for a JSON object response when the provider supports it */
+  jsonMode?: boolean;
+}
+
+/**
+ * Tokens billed for one call
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Provider-neutral chat completion result
+ */
+export interface ChatCompletionResult {
+  content: string;
+  model: string;
+  /** Absent when the server does not report usage */
+  usage?: TokenUsage;
+}
+
+/**
+ * Contract every LLM backend implements
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  /** Embeds texts with LLM_EMBEDDING_MODEL (optional; used by DEDUP_MODE=embedding) */
+  embed?(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Shared implementation for all backends speaking the OpenAI chat completions API
+ */
+abstract class OpenAIChatProvider implements LlmProvider {
+  abstract readonly name: LlmProviderName;
+
+  constructor(
+    protected readonly client: OpenAI,
+    public readonly model: string,
+    private readonly supportsJsonMode: boolean = true
+  ) {}
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const result = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature ?? config.llm.temperature,
+      max_tokens: request.maxTokens ?? config.llm.maxTokens,
+      ...(request.jsonMode && this.supportsJsonMode
+        ? { response_format: { type: "json_object" as const } }
+        : {}),
+    });
+
+    return {
+      content: result.choices[0]?.message?.content || "",
+      model: result.model || this.model,
+      usage: result.usage
+        ? {
+            promptTokens: result.usage.prompt_tokens,
+            completionTokens: result.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const result = await this.client.embeddings.create({
+      model: config.llm.embeddingModel,
+      input: texts,
+    });
+
+    return result.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+/**
+ * Azure OpenAI deployment
+ * The client is not pinned to one deployment: requests are routed by model
+ * name, so chat and embeddings can use different deployments
+ */
+export class AzureOpenAIProvider extends OpenAIChatProvider {
+  readonly name = "azure-openai" as const;
+
+  constructor() {
+    super(
+      new AzureOpenAI({
+        endpoint: config.azureOpenAI.endpoint,
+        apiKey: config.azureOpenAI.apiKey,
+        apiVersion: config.azureOpenAI.apiVersion,
+        timeout: config.llm.timeoutMs,
+      }),
+      config.azureOpenAI.deployment
+    );
+  }
+}
+
+/**
+ * OpenAI platform API
+ */
+export class OpenAIProvider extends OpenAIChatProvider {
+  readonly name = "openai" as const;
+
+  constructor() {
+    super(
+      new OpenAI({
+        apiKey: config.openAI.apiKey,
+        organization: config.openAI.organization || undefined,
+        timeout: config.llm.timeoutMs,
+      }),
+      config.openAI.model
+    );
+  }
+}
+
+/**
+ * Any server exposing the OpenAI chat completions API (vLLM, Ollama, LM Studio, ...)
+ * Local servers frequently ignore the API key and may not support JSON mode
+ */
+export class OpenAICompatibleProvider extends OpenAIChatProvider {
+  readonly name = "openai-compatible" as const;
+
+  constructor() {
+    super(
+      new OpenAI({
+        baseURL: config.openAI.baseUrl,
+        apiKey: config.openAI.apiKey || "not-required",
+        timeout: config.llm.timeoutMs,
+      }),
+      config.openAI.model,
+      config.openAI.supportsJsonMode
+    );
+  }
+}
+
+/**
+ * Creates the provider selected by LLM_PROVIDER
+ */
+export function createLlmProvider(
+  name: LlmProviderName = config.llm.provider
+): LlmProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIProvider();
+    case "openai-compatible":
+      return new OpenAICompatibleProvider();
+    case "azure-openai":
+    default:
+      return new AzureOpenAIProvider();
+  }
+}
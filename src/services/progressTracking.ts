@@ -0,0 +1,152 @@
+/**
+ * Progress Tracking
+ * In recurring meetings people report on work created in earlier occurrences
+ * ("I finished the login fix", "still blocked on the API"). Those reports
+ * become status updates on the existing work items instead of new items.
+ *
+ * Features:
+ * - Rule-based detection of status updates (used in rules mode and fallback)
+ * - Reconciliation of an extraction with the series' open items: unknown IDs
+ *   are dropped, and new items that restate an open item are removed
+ */
+
+import { config } from "../config";
+import {
+  ActionItemsResponse,
+  OpenWorkItem,
+  ProgressStatus,
+  StatusUpdate,
+} from "../models/actionItem";
+import { Transcript } from "../models/transcript";
+import { telemetry } from "../utils/telemetry";
+import { contentTokens, textSimilarity } from "../utils/similarity";
+import { formatTimestamp } from "../utils/transcriptParser";
+
+/**
+ * Progress phrasing per status, checked in this order
+ */
+const STATUS_PATTERNS: Array<{ status: ProgressStatus; pattern: RegExp }> = [
+  {
+    status: "blocked",
+    pattern: /\b(?:blocked|stuck|waiting (?:on|for)|can't (?:continue|proceed|move forward))\b/i,
+  },
+  {
+    status: "done",
+    pattern:
+      /\b(?:finished|completed|done with|is done|are done|fixed|merged|shipped|deployed|resolved|wrapped up)\b/i,
+  },
+  {
+    status: "inProgress",
+    pattern: /\b(?:working on|started|in progress|halfway|making progress|still on)\b/i,
+  },
+];
+
+/**
+ * Share of an open item's title words a sentence must contain to refer to it
+ */
+const MIN_TITLE_COVERAGE = 0.5;
+
+/**
+ * Finds progress reports on open items with keyword heuristics
+ * The last report on an item wins, since meetings end with the latest state
+ */
+export function detectStatusUpdates(
+  transcript: Transcript,
+  openItems: OpenWorkItem[]
+): StatusUpdate[] {
+  if (openItems.length === 0) {
+    return [];
+  }
+
+  const updates = new Map<number, StatusUpdate>();
+  for (const utterance of transcript.utterances) {
+    for (const sentence of utterance.text.split(/(?<=[.!?])\s+/)) {
+      const match = STATUS_PATTERNS.find(({ pattern }) => pattern.test(sentence));
+      const item = match && findReferencedItem(sentence, openItems);
+      if (!match || !item) {
+        continue;
+      }
+
+      updates.set(item.id, {
+        workItemId: item.id,
+        title: item.title,
+        type: item.type,
+        status: match.status,
+        comment: `${utterance.speaker}: ${sentence.trim()}`,
+        source: {
+          speaker: utterance.speaker,
+          startTime: formatTimestamp(utterance.start),
+          endTime: formatTimestamp(utterance.end),
+          quote: sentence.trim(),
+          verified: true,
+        },
+      });
+    }
+  }
+
+  return Array.from(updates.values());
+}
+
+/**
+ * Aligns an extraction with the open items of the series:
+ * - status updates for unknown items are dropped, the last update per item is
+ *   kept and titles are filled in from the open items
+ * - new action items that restate an open item are removed
+ */
+export function reconcileWithOpenItems(
+  response: ActionItemsResponse,
+  openItems: OpenWorkItem[]
+): ActionItemsResponse {
+  if (openItems.length === 0) {
+    return response.statusUpdates ? { ...response, statusUpdates: undefined } : response;
+  }
+
+  const byId = new Map(openItems.map((item) => [item.id, item]));
+  const updates = new Map<number, StatusUpdate>();
+  for (const update of response.statusUpdates || []) {
+    const item = byId.get(update.workItemId);
+    if (item) {
+      updates.set(item.id, { ...update, title: item.title, type: item.type });
+    }
+  }
+
+  const threshold = config.deduplication.similarityThreshold;
+  const actionItems = response.actionItems.filter(
+    (actionItem) =>
+      !openItems.some((item) => textSimilarity(actionItem.title, item.title) >= threshold)
+  );
+
+  const removed = response.actionItems.length - actionItems.length;
+  if (removed > 0) {
+    telemetry.info("Dropped action items that restate open work items", { removed });
+    telemetry.trackMetric("AI.OpenItemDuplicates", removed, "count");
+  }
+  if (updates.size > 0) {
+    telemetry.trackMetric("AI.StatusUpdates", updates.size, "count");
+  }
+
+  return {
+    ...response,
+    actionItems,
+    statusUpdates: updates.size > 0 ? Array.from(updates.values()) : undefined,
+  };
+}
+
+/**
+ * The open item whose title a sentence covers best, if any covers enough of it
+ */
+function findReferencedItem(sentence: string, openItems: OpenWorkItem[]): OpenWorkItem | undefined {
+  const words = new Set(contentTokens(sentence));
+  let best: { item: OpenWorkItem; coverage: number } | undefined;
+
+  for (const item of openItems) {
+    const titleTokens = Array.from(new Set(contentTokens(item.title)));
+    if (titleTokens.length === 0) continue;
+    const coverage = titleTokens.filter((token) => words.has(token)).length / titleTokens.length;
+    if (coverage >= MIN_TITLE_COVERAGE && (!best || coverage > best.coverage)) {
+      best = { item, coverage };
+    }
+  }
+
+  return best?.item;
+}
@@ -0,0 +1,231 @@
+/**
+ * Prompt Templates
+ * Loads versioned extraction prompts from Markdown files (see prompts/README.md)
+ *
+ * Features:
+ * - Frontmatter metadata: name, version, description, examples, vocabulary
+ * - {{variable}} substitution for meeting subject, date, attendees and vocabulary
+ * - Optional few-shot examples from a JSON file next to the template
+ * - Template selection per Teams team or conversation (PROMPT_ASSIGNMENTS)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import { telemetry } from "../utils/telemetry";
+
+/**
+ * Variables a template may reference
+ */
+export const TEMPLATE_VARIABLES = ["meetingSubject", "meetingDate", "attendees", "vocabulary"] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+/**
+ * Values substituted into a template
+ */
+export interface PromptVariables {
+  meetingSubject?: string;
+  meetingDate?: string;
+  attendees?: string[];
+  /** Extra terms, merged with the template's and PROMPT_VOCABULARY */
+  vocabulary?: string[];
+}
+
+/**
+ * A few-shot example: a transcript excerpt and the expected model output
+ */
+export interface PromptExample {
+  transcript: string;
+  output: unknown;
+}
+
+/**
+ * A loaded prompt template
+ */
+export interface PromptTemplate {
+  name: string;
+  version: string;
+  description?: string;
+  body: string;
+  examples: PromptExample[];
+  vocabulary: string[];
+}
+
+/**
+ * Where a prompt is used, for template selection
+ */
+export interface PromptScope {
+  teamId?: string;
+  conversationId?: string;
+}
+
+// Parsed templates by file path
+const cache = new Map<string, PromptTemplate>();
+
+/**
+ * Directory the templates are read from
+ */
+export function getTemplatesDir(): string {
+  return config.prompts.templatesDir || path.resolve(__dirname, "..", "..", "prompts");
+}
+
+/**
+ * Names of the available templates
+ */
+export function listPromptTemplates(dir: string = getTemplatesDir()): string[] {
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".md") && file.toLowerCase() !== "readme.md")
+    .map((file) => file.slice(0, -3))
+    .sort();
+}
+
+/**
+ * Loads (and caches) a template by name
+ * @throws Error when the file is missing or malformed
+ */
+export function loadPromptTemplate(
+  name: string,
+  dir: string = getTemplatesDir()
+): PromptTemplate {
+  if (!/^[\w-]+$/.test(name)) {
+    throw new Error(`Invalid prompt template name: ${name}`);
+  }
+
+  const file = path.join(dir, `${name}.md`);
+  const cached = cache.get(file);
+  if (cached) {
+    return cached;
+  }
+
+  if (!fs.existsSync(file)) {
+    throw new Error(`Prompt template not found: ${name} (looked in ${dir})`);
+  }
+
+  const { meta, body } = parseFrontmatter(fs.readFileSync(file, "utf-8"));
+  if (!meta.version) {
+    throw new Error(`Prompt template ${name} has no version in its frontmatter`);
+  }
+
+  const unknown = (body.match(/\{\{\s*(\w+)\s*\}\}/g) || [])
+    .map((placeholder) => placeholder.replace(/[{}\s]/g, ""))
+    .filter((variable) => !(TEMPLATE_VARIABLES as readonly string[]).includes(variable));
+  if (unknown.length > 0) {
+    throw new Error(`Prompt template ${name} uses unknown variables: ${unknown.join(", ")}`);
+  }
+
+  const template: PromptTemplate = {
+    name: meta.name || name,
+    version: meta.version,
+    description: meta.description,
+    body,
+    examples: meta.examples ? loadExamples(path.join(dir, meta.examples), name) : [],
+    vocabulary: splitList(meta.vocabulary),
+  };
+
+  cache.set(file, template);
+  telemetry.debug("Loaded prompt template", {
+    name: template.name,
+    version: template.version,
+    examples: template.examples.length,
+  });
+  return template;
+}
+
+/**
+ * Clears loaded templates so edited files are picked up
+ */
+export function clearPromptTemplateCache(): void {
+  cache.clear();
+}
+
+/**
+ * Template name for a team or conversation: a conversation assignment wins
+ * over a team assignment, which wins over PROMPT_TEMPLATE
+ */
+export function selectPromptTemplate(scope: PromptScope = {}): string {
+  const assignments = config.prompts.assignments;
+  return (
+    (scope.conversationId && assignments[scope.conversationId]) ||
+    (scope.teamId && assignments[scope.teamId]) ||
+    config.prompts.defaultTemplate
+  );
+}
+
+/**
+ * Substitutes variables into the template body
+ * Missing values render as "not provided" so the prompt stays readable
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  variables: PromptVariables = {}
+): string {
+  const vocabulary = Array.from(
+    new Set([...template.vocabulary, ...config.prompts.vocabulary, ...(variables.vocabulary || [])])
+  );
+  const values: Record<TemplateVariable, string> = {
+    meetingSubject: variables.meetingSubject || "",
+    meetingDate: variables.meetingDate || "",
+    attendees: (variables.attendees || []).join(", "),
+    vocabulary: vocabulary.join(", "),
+  };
+
+  return template.body
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, variable: TemplateVariable) => values[variable] || "not provided")
+    .trim();
+}
+
+/**
+ * Identifier recorded on results and work items, e.g. "ops@1.2.0"
+ */
+export function formatPromptVersion(template: PromptTemplate): string {
+  return `${template.name}@${template.version}`;
+}
+
+/**
+ * Splits "---" frontmatter (simple "key: value" lines) from the body
+ */
+function parseFrontmatter(content: string): { meta: Record<string, string>; body: string } {
+  const match = content.replace(/\r\n/g, "\n").match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+  if (!match) {
+    return { meta: {}, body: content };
+  }
+
+  const meta: Record<string, string> = {};
+  for (const line of match[1].split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      meta[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+  return { meta, body: match[2] };
+}
+
+function loadExamples(file: string, templateName: string): PromptExample[] {
+  let examples: unknown;
+  try {
+    examples = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Could not load examples for prompt template ${templateName}: ${(error as Error).message}`
+    );
+  }
+
+  if (
+    !Array.isArray(examples) ||
+    !examples.every((e) => e && typeof e.transcript === "string" && e.output !== undefined)
+  ) {
+    throw new Error(
+      `Examples for prompt template ${templateName} must be an array of { transcript, output }`
+    );
+  }
+  return examples as PromptExample[];
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,270 @@
+/**
+ * Transcript Redaction
+ * Masks PII and secrets before a transcript is sent to the LLM, and restores
+ * them in extracted text only where policy allows (REDACTION_RESTORE)
+ *
+ * Features:
+ * - Built-in entities: EMAIL, PHONE, CREDIT_CARD (Luhn-checked), IP_ADDRESS,
+ *   SECRET (API keys, tokens, and values read out after "password is ...")
+ * - Custom entities from REDACTION_PATTERNS (e.g. customer names)
+ * - Allow-list of values that are never masked
+ * - Stable placeholders: the same value always becomes the same "[EMAIL_1]"
+ *
+ * Speaker names are never masked; they are needed to assign work.
+ */
+
+import { config } from "../config";
+import { ActionItemsResponse } from "../models/actionItem";
+import { Transcript } from "../models/transcript";
+import { telemetry } from "../utils/telemetry";
+
+/**
+ * An entity type and how to find it
+ * When the pattern has a capture group, only the group is masked
+ */
+interface EntityPattern {
+  kind: string;
+  pattern: RegExp;
+  /** Extra check on a match, e.g. a checksum */
+  accept?: (value: string) => boolean;
+}
+
+/**
+ * Built-in entity patterns, applied in this order
+ */
+const BUILT_IN_PATTERNS: EntityPattern[] = [
+  {
+    kind: "SECRET",
+    // Values read out after a credential cue: "the password is hunter2"
+    pattern:
+      /\b(?:password|passcode|passphrase|pin|secret|api key|access key|token|connection string)\s*(?:is|was|:|=)\s*["']?([^\s"',]{4,})/gi,
+    // "the token is expired" and "the pin is loose" are not credentials
+    accept: looksLikeCredential,
+  },
+  {
+    kind: "SECRET",
+    // Well-known key formats: OpenAI, AWS, GitHub, Slack, JWTs
+    pattern:
+      /\b(?:sk-[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|eyJ[\w-]+\.[\w-]+\.[\w-]+)/g,
+  },
+  {
+    kind: "SECRET",
+    // Long random-looking strings mixing letters and digits
+    pattern: /\b(?=[A-Za-z0-9+/_-]*\d)(?=[A-Za-z0-9+/_-]*[A-Za-z])[A-Za-z0-9+/_-]{32,}={0,2}/g,
+    // GUIDs (subscription, tenant or correlation IDs) are identifiers, not secrets
+    accept: (value) => !GUID_PATTERN.test(value),
+  },
+  {
+    kind: "EMAIL",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    kind: "CREDIT_CARD",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: passesLuhn,
+  },
+  {
+    kind: "PHONE",
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\b\d{3}[\s.-])\d{3}[\s.-]?\d{4}\b/g,
+  },
+  {
+    kind: "IP_ADDRESS",
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+  },
+];
+
+const GUID_PATTERN = /^[0-9a-f]{8}(?:-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i;
+
+/**
+ * Entity types that are never restored, whatever REDACTION_RESTORE says
+ */
+const NEVER_RESTORED = new Set(["SECRET"]);
+
+/**
+ * Placeholder format, e.g. "[EMAIL_1]"
+ */
+const PLACEHOLDER_PATTERN = /\[([A-Z][A-Z_]*)_(\d+)\]/g;
+
+/**
+ * A masked value
+ */
+export interface RedactedEntity {
+  kind: string;
+  value: string;
+}
+
+/**
+ * Outcome of redacting a transcript
+ */
+export interface RedactionResult {
+  transcript: Transcript;
+  /** Original values by placeholder */
+  entities: Record<string, RedactedEntity>;
+  /** Masked occurrences by entity type */
+  counts: Record<string, number>;
+}
+
+/**
+ * Redaction settings (defaults come from config.redaction)
+ */
+export interface RedactionOptions {
+  entities?: readonly string[];
+  patterns?: Record<string, string>;
+  allowList?: readonly string[];
+}
+
+/**
+ * Masks PII and secrets in every utterance
+ * Returns the transcript unchanged when REDACTION_ENABLED=false
+ */
+export function redactTranscript(
+  transcript: Transcript,
+  options: RedactionOptions = {}
+): RedactionResult {
+  if (!config.redaction.enabled) {
+    return { transcript, entities: {}, counts: {} };
+  }
+
+  const patterns = buildPatterns(options);
+  const allowList = new Set(
+    (options.allowList ?? config.redaction.allowList).map((value) => value.toLowerCase())
+  );
+  const entities: Record<string, RedactedEntity> = {};
+  const counts: Record<string, number> = {};
+  const placeholders = new Map<string, string>();
+
+  const mask = (kind: string, value: string): string => {
+    const key = `${kind}:${value.toLowerCase()}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      const index = Object.values(entities).filter((entity) => entity.kind === kind).length + 1;
+      placeholder = `[${kind}_${index}]`;
+      placeholders.set(key, placeholder);
+      entities[placeholder] = { kind, value };
+    }
+    counts[kind] = (counts[kind] || 0) + 1;
+    return placeholder;
+  };
+
+  const redactText = (text: string): string =>
+    patterns.reduce(
+      (current, { kind, pattern, accept }) =>
+        current.replace(pattern, (match: string, group?: unknown) => {
+          const value = typeof group === "string" ? group : match;
+          if (allowList.has(value.toLowerCase()) || (accept && !accept(value))) {
+            return match;
+          }
+          return match.replace(value, mask(kind, value));
+        }),
+      text
+    );
+
+  const redacted: Transcript = {
+    ...transcript,
+    utterances: transcript.utterances.map((utterance) => ({
+      ...utterance,
+      text: redactText(utterance.text),
+    })),
+  };
+
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  if (total > 0) {
+    telemetry.info("Redacted transcript before extraction", { total, ...counts });
+    for (const [kind, count] of Object.entries(counts)) {
+      telemetry.trackMetric("Redaction.Entities", count, "count", { kind });
+    }
+  }
+
+  return { transcript: redacted, entities, counts };
+}
+
+/**
+ * Puts back original values for entity types the policy allows
+ * Other placeholders stay masked
+ */
+export function restoreText(
+  text: string,
+  redaction: RedactionResult,
+  restore: readonly string[] = config.redaction.restore
+): string {
+  const allowed = new Set(restore.map((kind) => kind.toUpperCase()));
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+    const entity = redaction.entities[placeholder];
+    return entity && allowed.has(entity.kind) && !NEVER_RESTORED.has(entity.kind)
+      ? entity.value
+      : placeholder;
+  });
+}
+
+/**
+ * Restores allowed values in every text field of an extraction result
+ * (items, details, citations, minutes and summary)
+ */
+export function restoreResponse(
+  response: ActionItemsResponse,
+  redaction: RedactionResult,
+  restore: readonly string[] = config.redaction.restore
+): ActionItemsResponse {
+  if (Object.keys(redaction.entities).length === 0) {
+    return response;
+  }
+  return mapStrings(response, (text) => restoreText(text, redaction, restore));
+}
+
+/**
+ * Built-in patterns for the enabled entity types, then custom patterns
+ */
+function buildPatterns(options: RedactionOptions): EntityPattern[] {
+  const enabled = new Set(
+    (options.entities ?? config.redaction.entities).map((kind) => kind.toUpperCase())
+  );
+  const custom = Object.entries(options.patterns ?? config.redaction.patterns).map(
+    ([kind, source]) => ({ kind: kind.toUpperCase(), pattern: new RegExp(source, "gi") })
+  );
+  return [...BUILT_IN_PATTERNS.filter((entity) => enabled.has(entity.kind)), ...custom];
+}
+
+/**
+ * Whether a value read out after a credential cue could be a credential:
+ * it has a digit, a symbol or mixed case, unlike a plain (capitalized) word
+ */
+function looksLikeCredential(value: string): boolean {
+  // Sentence punctuation after the value does not count as a symbol
+  const core = value.replace(/[.!?;:)]+$/, "");
+  return /\d/.test(core) || /[^A-Za-z'-]/.test(core) || (/[a-z]/.test(core) && /.[A-Z]/.test(core));
+}
+
+/**
+ * Luhn checksum, to tell card numbers from other long digit runs
+ */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Applies a function to every string in a JSON-like value
+ */
+function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  if (typeof value === "string") {
+    return fn(value) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => mapStrings(entry, fn)) as unknown as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, mapStrings(entry, fn)])
+    ) as T;
+  }
+  return value;
+}
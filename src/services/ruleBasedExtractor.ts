@@ -0,0 +1,411 @@
+/**
+ * Rule-Based Action Item Extractor
+ * Deterministic, offline extraction used when no model is available
+ *
+ * Features:
+ * - Speaker turns built from the structured transcript utterances
+ * - Source citations with speaker, cue times and the supporting sentence
+ * - Commitment ("I'll", "I will") and request ("can you") phrase detection
+ * - Request/acceptance pairing so one task yields one item
+ * - Deadline, type and priority keyword heuristics
+ * - Decision, risk, blocker and open question phrase detection for minutes
+ */
+
+import {
+  ActionItem,
+  ActionItemsResponse,
+  MeetingInsight,
+  MeetingMinutes,
+} from "../models/actionItem";
+import { Transcript } from "../models/transcript";
+import { formatTimestamp, getSpeakers } from "../utils/transcriptParser";
+
+/**
+ * A sentence with the timing of the cue it was spoken in
+ */
+interface TranscriptSentence {
+  text: string;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * A single speaker turn reconstructed from the transcript text
+ */
+interface SpeakerTurn {
+  speaker: string;
+  sentences: TranscriptSentence[];
+}
+
+/**
+ * A request addressed to someone that may be accepted in a later turn
+ */
+interface PendingRequest {
+  item: ActionItem;
+  addressee?: string;
+  turnIndex: number;
+}
+
+// First-person commitments: the speaker takes the task
+const COMMITMENT_PATTERN =
+  /\b(?:I'll|I will|I'm going to|I am going to|I can take|let me)\s+(.+)/i;
+
+// Requests: someone else is asked to take the task
+const REQUEST_PATTERN =
+  /\b(?:can you|could you|would you|will you|please)\s+(.+)/i;
+
+// Short affirmative replies accepting a request ("Sure", "Will do")
+const ACCEPTANCE_PATTERN = /^(?:sure|yes|yep|ok|okay|will do|on it|sounds good)\b/i;
+
+// Commitment and request phrases that carry no task of their own
+// ("let me know if you have questions", "please keep me posted")
+const NON_ACTION_PATTERN =
+  /^(?:be|get started|talk|think|check in|see|let you know|know|guess|share (?:my )?screen|let (?:me|us) know|keep (?:me|us) (?:posted|updated|in the loop))\b/i;
+
+const DEADLINE_PATTERNS: RegExp[] = [
+  /\b(?:by )?(?:the )?end of (?:the )?(?:day|week|month|sprint|quarter)\b/i,
+  /\b(?:by )?eod\b/i,
+  /\b(?:by )?(?:today|tonight|tomorrow)\b/i,
+  /\b(?:by )?next (?:week|sprint|month|monday|tuesday|wednesday|thursday|friday)\b/i,
+  /\bby (?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/i,
+  /\bby (?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]* \d{1,2}(?:st|nd|rd|th)?\b/i,
+  /\bby (?:the )?\d{1,2}(?:st|nd|rd|th)? (?:of )?(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b/i,
+  /\bby \d{1,2}\/\d{1,2}\b/i,
+  /\b(?:in|within) (?:\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten|a couple of|a few) (?:business |working )?(?:days?|weeks?|months?)\b/i,
+];
+
+const BUG_KEYWORDS = /\b(?:bug|fix|fixing|error|crash|broken|defect|regression|timing out|timeout|hotfix)\b/i;
+const STORY_KEYWORDS = /\b(?:feature|user story|story|enhancement|new page|new screen)\b/i;
+const HIGH_PRIORITY = /\b(?:asap|urgent|urgently|critical|blocker|blocking|immediately|today|eod|end of day|hotfix)\b/i;
+const LOW_PRIORITY = /\b(?:nice to have|eventually|when time permits|low priority|someday)\b/i;
+const MEDIUM_PRIORITY = /\bmedium priority\b/i;
+
+// Meeting minutes: what was decided, what could go wrong, what is stuck
+const DECISION_PATTERN =
+  /\b(?:we(?:'ve| have)? decided|decided to|we agreed|(?:it's|it is) agreed|the decision is|(?:let's|we'll|we will|we're|we are) go(?:ing)? with)\b/i;
+const BLOCKER_PATTERN =
+  /\b(?:blocked|blocker|can't (?:proceed|continue|move forward|start)|cannot (?:proceed|continue|start)|waiting on)\b/i;
+const RISK_PATTERN =
+  /\b(?:risk|risky|concerned|worried|might (?:not|slip|break|fail)|could (?:slip|break|fail)|may (?:not|slip|break|fail))\b/i;
+const QUESTION_PATTERN =
+  /^(?:what|how|who|when|where|why|which|should|do|does|did|is|are|will|can we|could we)\b.*\?$/i;
+// Meeting logistics, not open questions ("Any other items to discuss?")
+const PROCEDURAL_QUESTION = /\b(?:any (?:other|more)|anything else|everyone|how was|how are)\b/i;
+
+// Noun phrases that later pronouns ("that", "it") usually refer to
+const TOPIC_PATTERN =
+  /\b(?:the|a|an|some|our)\s+((?:[\w-]+\s+){0,3}(?:bug|issue|feature|tests?|docs|documentation|module|page|hotfix))\b/gi;
+
+// "I'll have the docs updated" → "Update the docs"
+const PARTICIPLE_TO_VERB: Record<string, string> = {
+  updated: "Update",
+  written: "Write",
+  fixed: "Fix",
+  done: "Complete",
+  finished: "Finish",
+  ready: "Prepare",
+  deployed: "Deploy",
+  reviewed: "Review",
+  merged: "Merge",
+};
+
+/**
+ * Extracts action items from a transcript using deterministic heuristics
+ * @param transcript - The structured meeting transcript
+ * @returns The same response shape as the LLM extractor
+ */
+export function extractActionItemsWithRules(transcript: Transcript): ActionItemsResponse {
+  const turns = splitIntoTurns(transcript);
+  const items: ActionItem[] = [];
+  const minutes: Required<MeetingMinutes> = {
+    decisions: [],
+    risks: [],
+    blockers: [],
+    openQuestions: [],
+  };
+  let pending: PendingRequest[] = [];
+  let topic: string | undefined;
+
+  turns.forEach((turn, turnIndex) => {
+    // Requests older than the previous two turns are never accepted
+    const expired = pending.filter((p) => turnIndex - p.turnIndex > 2);
+    items.push(...expired.map((p) => p.item));
+    pending = pending.filter((p) => turnIndex - p.turnIndex <= 2);
+
+    const sentences = turn.sentences.map((s) => s.text);
+
+    turn.sentences.forEach((cue, sentenceIndex) => {
+      const sentence = cue.text;
+      const commitment = sentence.match(COMMITMENT_PATTERN);
+      const request = commitment ? null : sentence.match(REQUEST_PATTERN);
+
+      if (commitment && !NON_ACTION_PATTERN.test(commitment[1])) {
+        const item = buildItem(commitment[1], turn.speaker, cue, turn.speaker, topic);
+        const accepted = takePendingRequest(pending, turn.speaker);
+        if (accepted) {
+          mergeRequestIntoCommitment(item, accepted.item);
+        }
+        items.push(item);
+      } else if (request && !NON_ACTION_PATTERN.test(request[1])) {
+        const addressee = findAddressee(sentence, turns, turnIndex);
+        const item = buildItem(request[1], addressee || "Unassigned", cue, turn.speaker, topic);
+        pending.push({ item, addressee, turnIndex });
+      } else if (sentenceIndex === 0 && ACCEPTANCE_PATTERN.test(sentence)) {
+        // A bare "Sure." accepts the request even without a restated task
+        const accepted = takePendingRequest(pending, turn.speaker);
+        if (accepted && !sentences.some((s) => COMMITMENT_PATTERN.test(s))) {
+          items.push({ ...accepted.item, assignedTo: turn.speaker });
+        } else if (accepted) {
+          pending.push(accepted);
+        }
+      } else {
+        recordMinutes(minutes, cue, turn.speaker, turns);
+      }
+
+      topic = findTopic(sentence) || topic;
+    });
+  });
+
+  items.push(...pending.map((p) => p.item));
+
+  const speakers = getSpeakers(transcript);
+
+  return {
+    actionItems: items,
+    ...minutes,
+    summary:
+      items.length > 0
+        ? `Rule-based extraction identified ${items.length} action item${items.length !== 1 ? "s" : ""} across ${speakers.length} speaker${speakers.length !== 1 ? "s" : ""}.`
+        : "No technical action items identified in this meeting.",
+    extractionMethod: "rules",
+  };
+}
+
+/**
+ * Split the transcript into speaker turns
+ * Consecutive utterances from the same speaker form one turn
+ */
+function splitIntoTurns(transcript: Transcript): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+
+  for (const utterance of transcript.utterances) {
+    const sentences = splitSentences(utterance.text).map((text) => ({
+      text,
+      startTime: formatTimestamp(utterance.start),
+      endTime: formatTimestamp(utterance.end),
+    }));
+
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === utterance.speaker) {
+      last.sentences.push(...sentences);
+    } else {
+      turns.push({ speaker: utterance.speaker, sentences });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Split text into sentences
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Find who a request is addressed to: a leading/trailing name, or the next speaker
+ */
+function findAddressee(
+  sentence: string,
+  turns: SpeakerTurn[],
+  turnIndex: number
+): string | undefined {
+  const speakers = Array.from(new Set(turns.map((t) => t.speaker)));
+  const mentioned = findMentionedSpeaker(sentence, speakers, turns[turnIndex].speaker);
+  if (mentioned) {
+    return mentioned;
+  }
+
+  const next = turns[turnIndex + 1];
+  return next && next.speaker !== turns[turnIndex].speaker ? next.speaker : undefined;
+}
+
+/**
+ * Add a sentence to the minutes when it states a decision, risk, blocker
+ * or open question
+ */
+function recordMinutes(
+  minutes: Required<MeetingMinutes>,
+  cue: TranscriptSentence,
+  speaker: string,
+  turns: SpeakerTurn[]
+): void {
+  const sentence = cue.text;
+  const insight = (owner?: string): MeetingInsight => ({
+    text: sentence,
+    owner,
+    source: {
+      speaker,
+      startTime: cue.startTime,
+      endTime: cue.endTime,
+      quote: sentence,
+      verified: true,
+    },
+  });
+
+  if (sentence.endsWith("?")) {
+    if (QUESTION_PATTERN.test(sentence) && !PROCEDURAL_QUESTION.test(sentence)) {
+      // Owned by whoever is named, since nobody has taken it on yet
+      const speakers = Array.from(new Set(turns.map((t) => t.speaker)));
+      minutes.openQuestions.push(insight(findMentionedSpeaker(sentence, speakers, speaker)));
+    }
+  } else if (BLOCKER_PATTERN.test(sentence)) {
+    minutes.blockers.push(insight(speaker));
+  } else if (DECISION_PATTERN.test(sentence)) {
+    minutes.decisions.push(insight(speaker));
+  } else if (RISK_PATTERN.test(sentence)) {
+    minutes.risks.push(insight(speaker));
+  }
+}
+
+/**
+ * A speaker other than `exclude` whose first name appears in the sentence
+ */
+function findMentionedSpeaker(
+  sentence: string,
+  speakers: string[],
+  exclude: string
+): string | undefined {
+  return speakers.find((speaker) => {
+    const firstName = speaker.split(" ")[0];
+    return speaker !== exclude && new RegExp(`\\b${escapeRegExp(firstName)}\\b`).test(sentence);
+  });
+}
+
+/**
+ * Remove and return the most recent pending request for a speaker
+ */
+function takePendingRequest(
+  pending: PendingRequest[],
+  speaker: string
+): PendingRequest | undefined {
+  for (let i = pending.length - 1; i >= 0; i--) {
+    if (!pending[i].addressee || pending[i].addressee === speaker) {
+      return pending.splice(i, 1)[0];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Carry deadline and urgency from the request into the accepted commitment
+ */
+function mergeRequestIntoCommitment(item: ActionItem, request: ActionItem): void {
+  item.deadline = item.deadline || request.deadline;
+  if (request.priority === "High" || (item.priority === "Medium" && request.priority === "Low")) {
+    item.priority = request.priority;
+  }
+  if (item.type === "Task" && request.type !== "Task") {
+    item.type = request.type;
+  }
+  if (request.description && request.description !== item.description) {
+    item.description = `${request.description} ${item.description || ""}`.trim();
+  }
+}
+
+/**
+ * Build an action item from the action clause of a sentence
+ */
+function buildItem(
+  clause: string,
+  assignedTo: string,
+  cue: TranscriptSentence,
+  speaker: string,
+  topic?: string
+): ActionItem {
+  const sentence = cue.text;
+  const deadline = findDeadline(sentence);
+
+  return {
+    title: buildTitle(clause, topic),
+    assignedTo,
+    type: classifyType(`${sentence} ${topic || ""}`),
+    priority: classifyPriority(sentence),
+    description: sentence,
+    deadline,
+    source: {
+      speaker,
+      startTime: cue.startTime,
+      endTime: cue.endTime,
+      quote: sentence,
+      verified: true,
+    },
+  };
+}
+
+/**
+ * Turn an action clause into a short, verb-first title
+ */
+function buildTitle(clause: string, topic?: string): string {
+  let title = clause.replace(/[?.!]+$/, "");
+
+  for (const pattern of DEADLINE_PATTERNS) {
+    title = title.replace(pattern, "");
+  }
+
+  title = title
+    .replace(/\s+as an? \w+ priority (?:task|item)\b/i, "")
+    .replace(/\b(?:those|these)\b/gi, "the")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  // Resolve a trailing pronoun against the most recent topic
+  if (topic) {
+    title = title.replace(/\b(?:that|it|this)\b(?=\s*$)/i, topic);
+  }
+
+  const participle = title.match(/^have\s+(.+?)\s+(\w+)$/i);
+  if (participle && PARTICIPLE_TO_VERB[participle[2].toLowerCase()]) {
+    title = `${PARTICIPLE_TO_VERB[participle[2].toLowerCase()]} ${participle[1]}`;
+  }
+
+  const words = title.split(" ").slice(0, 15).join(" ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function findDeadline(sentence: string): string | undefined {
+  for (const pattern of DEADLINE_PATTERNS) {
+    const match = sentence.match(pattern);
+    if (match) {
+      return match[0].replace(/^by\s+/i, "").trim();
+    }
+  }
+  return undefined;
+}
+
+function findTopic(sentence: string): string | undefined {
+  const matches = Array.from(sentence.matchAll(TOPIC_PATTERN));
+  const last = matches[matches.length - 1];
+  return last ? `the ${last[1]}` : undefined;
+}
+
+function classifyType(text: string): ActionItem["type"] {
+  if (STORY_KEYWORDS.test(text)) return "User Story";
+  if (BUG_KEYWORDS.test(text)) return "Bug";
+  return "Task";
+}
+
+function classifyPriority(text: string): ActionItem["priority"] {
+  if (LOW_PRIORITY.test(text)) return "Low";
+  if (MEDIUM_PRIORITY.test(text)) return "Medium";
+  if (HIGH_PRIORITY.test(text)) return "High";
+  return "Medium";
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,284 @@
+/**
+ * LLM Usage & Cost Accounting
+ * Records prompt/completion tokens and estimated cost for every model call,
+ * rolled up per UTC day, meeting, conversation and tenant
+ *
+ * Features:
+ * - Price table by model family (defaults below, overridden by LLM_PRICES)
+ * - Daily budgets, overall and per tenant, enforced before extraction
+ * - Rollups kept in memory for the last USAGE_RETENTION_DAYS days
+ */
+
+import { config } from "../config";
+import {
+  ActionAgentError,
+  CorrelationContext,
+  createCorrelationContext,
+} from "../utils/errorHandling";
+import { telemetry } from "../utils/telemetry";
+import { TokenUsage } from "./llmProvider";
+
+/**
+ * USD per 1M tokens
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * List prices by model family; a family matches the whole model name or a part
+ * of it between separators, e.g. "gpt-4o" in "gpt-4o-2024-08-06" or "prod-gpt-4o"
+ * Unknown (e.g. self-hosted) models cost nothing
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4.1": { prompt: 2, completion: 8 },
+  "gpt-4.1-mini": { prompt: 0.4, completion: 1.6 },
+  "gpt-4.1-nano": { prompt: 0.1, completion: 0.4 },
+  "gpt-4-turbo": { prompt: 10, completion: 30 },
+  "gpt-4": { prompt: 30, completion: 60 },
+  "gpt-35-turbo": { prompt: 0.5, completion: 1.5 },
+  "gpt-3.5-turbo": { prompt: 0.5, completion: 1.5 },
+  "o1": { prompt: 15, completion: 60 },
+  "o1-mini": { prompt: 1.1, completion: 4.4 },
+  "o3": { prompt: 2, completion: 8 },
+  "o3-mini": { prompt: 1.1, completion: 4.4 },
+  "o4-mini": { prompt: 1.1, completion: 4.4 },
+};
+
+// Characters that separate a model family from dates, variants and deployment prefixes
+const MODEL_NAME_SEPARATORS = "-_:/@\\s";
+
+/**
+ * Who a model call was made for
+ */
+export interface UsageScope {
+  meetingId?: string;
+  conversationId?: string;
+  tenantId?: string;
+}
+
+/**
+ * Accumulated usage
+ */
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Usage for one UTC day
+ */
+export interface UsageSummary {
+  date: string;
+  total: UsageTotals;
+  byMeeting: Record<string, UsageTotals>;
+  byConversation: Record<string, UsageTotals>;
+  byTenant: Record<string, UsageTotals>;
+  budgets: { dailyUsd: number; tenantDailyUsd: number };
+}
+
+/**
+ * Thrown when a daily budget is used up; processing resumes the next UTC day
+ */
+export class BudgetExceededError extends ActionAgentError {
+  constructor(
+    public readonly budgetUsd: number,
+    public readonly spentUsd: number,
+    context: CorrelationContext
+  ) {
+    super(
+      `Daily LLM budget exceeded: $${spentUsd.toFixed(2)} spent of $${budgetUsd.toFixed(2)}`,
+      context,
+      { isRetryable: false, statusCode: 429 }
+    );
+    this.name = "BudgetExceededError";
+  }
+
+  toUserMessage(): string {
+    return `Today's AI budget ($${this.budgetUsd.toFixed(2)}) has been used up, so meetings cannot be processed until tomorrow (UTC). Reference ID: ${this.correlationId}`;
+  }
+}
+
+/**
+ * Days of rollups kept in memory
+ */
+const USAGE_RETENTION_DAYS = 7;
+
+interface DayUsage {
+  total: UsageTotals;
+  byMeeting: Map<string, UsageTotals>;
+  byConversation: Map<string, UsageTotals>;
+  byTenant: Map<string, UsageTotals>;
+}
+
+// Rollups by UTC date (YYYY-MM-DD)
+const days = new Map<string, DayUsage>();
+
+// Models already reported as having no price
+const unpricedModels = new Set<string>();
+
+/**
+ * Price for a model or deployment name, or undefined when unknown
+ * LLM_PRICES entries win over the defaults; longest family name first
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const prices = { ...DEFAULT_MODEL_PRICES, ...config.usage.prices };
+  const normalized = model.toLowerCase();
+  const family = Object.keys(prices)
+    .sort((a, b) => b.length - a.length)
+    .find((name) => matchesModelFamily(normalized, name.toLowerCase()));
+
+  if (!family && !unpricedModels.has(model)) {
+    unpricedModels.add(model);
+    telemetry.info("No price for model, its calls are counted as free (see LLM_PRICES)", { model });
+  }
+  return family ? prices[family] : undefined;
+}
+
+/**
+ * Whether the family is the model name or a part of it between separators
+ */
+function matchesModelFamily(model: string, family: string): boolean {
+  const escaped = family.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(
+    `(?:^|[${MODEL_NAME_SEPARATORS}])${escaped}(?:$|[${MODEL_NAME_SEPARATORS}])`
+  ).test(model);
+}
+
+/**
+ * Estimated USD cost of a call
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const price = getModelPrice(model);
+  if (!price) {
+    return 0;
+  }
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+}
+
+/**
+ * Records one model call against today's rollups and telemetry
+ */
+export function recordUsage(model: string, usage: TokenUsage, scope: UsageScope = {}): void {
+  const costUsd = estimateCost(model, usage);
+  const day = getDay(today());
+
+  const add = (totals: UsageTotals) => {
+    totals.calls += 1;
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    totals.costUsd += costUsd;
+  };
+  add(day.total);
+  if (scope.meetingId) add(entry(day.byMeeting, scope.meetingId));
+  if (scope.conversationId) add(entry(day.byConversation, scope.conversationId));
+  if (scope.tenantId) add(entry(day.byTenant, scope.tenantId));
+
+  const tags = { model, ...(scope.tenantId ? { tenantId: scope.tenantId } : {}) };
+  telemetry.trackMetric("AI.PromptTokens", usage.promptTokens, "tokens", tags);
+  telemetry.trackMetric("AI.CompletionTokens", usage.completionTokens, "tokens", tags);
+  telemetry.trackMetric("AI.CostUsd", costUsd, "usd", tags);
+}
+
+/**
+ * Throws BudgetExceededError when today's overall or tenant budget is used up
+ */
+export function assertWithinBudget(scope: UsageScope = {}): void {
+  const day = days.get(today());
+  if (!day) {
+    return;
+  }
+
+  const { dailyBudgetUsd, tenantDailyBudgetUsd } = config.usage;
+  const tenantSpent = scope.tenantId ? day.byTenant.get(scope.tenantId)?.costUsd ?? 0 : 0;
+
+  let exceeded: { budget: number; spent: number } | undefined;
+  if (dailyBudgetUsd > 0 && day.total.costUsd >= dailyBudgetUsd) {
+    exceeded = { budget: dailyBudgetUsd, spent: day.total.costUsd };
+  } else if (tenantDailyBudgetUsd > 0 && tenantSpent >= tenantDailyBudgetUsd) {
+    exceeded = { budget: tenantDailyBudgetUsd, spent: tenantSpent };
+  }
+
+  if (exceeded) {
+    telemetry.warn("Daily LLM budget exceeded, refusing extraction", { ...scope, ...exceeded });
+    telemetry.trackMetric("AI.BudgetRefusal", 1, "count");
+    throw new BudgetExceededError(
+      exceeded.budget,
+      exceeded.spent,
+      createCorrelationContext("AI.Budget", { ...scope })
+    );
+  }
+}
+
+/**
+ * Usage rollups for a UTC day (default: today)
+ */
+export function getUsageSummary(date: string = today()): UsageSummary {
+  const day = days.get(date) || emptyDay();
+  return {
+    date,
+    total: { ...day.total },
+    byMeeting: copyTotals(day.byMeeting),
+    byConversation: copyTotals(day.byConversation),
+    byTenant: copyTotals(day.byTenant),
+    budgets: {
+      dailyUsd: config.usage.dailyBudgetUsd,
+      tenantDailyUsd: config.usage.tenantDailyBudgetUsd,
+    },
+  };
+}
+
+/**
+ * Clears all rollups (e.g. for tests)
+ */
+export function resetUsage(): void {
+  days.clear();
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function getDay(date: string): DayUsage {
+  let day = days.get(date);
+  if (!day) {
+    day = emptyDay();
+    days.set(date, day);
+    // ISO dates sort chronologically
+    for (const old of Array.from(days.keys()).sort().slice(0, -USAGE_RETENTION_DAYS)) {
+      days.delete(old);
+    }
+  }
+  return day;
+}
+
+function emptyDay(): DayUsage {
+  return {
+    total: emptyTotals(),
+    byMeeting: new Map(),
+    byConversation: new Map(),
+    byTenant: new Map(),
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+}
+
+function copyTotals(map: Map<string, UsageTotals>): Record<string, UsageTotals> {
+  return Object.fromEntries(Array.from(map, ([key, totals]) => [key, { ...totals }]));
+}
+
+function entry(map: Map<string, UsageTotals>, key: string): UsageTotals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
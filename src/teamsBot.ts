@@ -5,6 +5,11 @@
  * Features:
  * - Command handling with Adaptive Cards
  * - Meeting selection and processing
+ * - Human confirmation of suspicious runs (possible prompt injection)
+ * - Status updates on open items from earlier meetings in the series
+ * - Review of likely duplicates of open work items before they are created
+ * - One run at a time per meeting; reruns show, extend or redo earlier results
+ * - Retry of work items that failed to be created
  * - Health checks and status reporting
  * - Comprehensive error handling with user-friendly messages
  */
@@ -14,12 +19,36 @@ import {
   TurnContext,
   CardFactory,
   TeamsInfo,
+  teamsGetTeamInfo,
 } from "botbuilder";
 import { getMeetingTranscript, getMeetingDetails, listRecentMeetings, getGraphErrorMessage } from "./services/graphService";
 import { extractActionItems } from "./services/aiService";
-import { createWorkItems, validateConnection, ExtendedWorkItemResult } from "./services/devopsService";
+import { selectPromptTemplate } from "./services/promptTemplates";
+import { getUsageSummary, UsageTotals } from "./services/usageTracker";
+import { redactTranscript, restoreResponse } from "./services/redaction";
+import { screenExtraction } from "./services/injectionGuard";
+import { resolveDeadlines } from "./services/deadlineResolver";
+import {
+  applyStatusUpdates,
+  createWorkItems,
+  findDuplicates,
+  getEstimateReferences,
+  getMeetingWorkItems,
+  getOpenSeriesItems,
+  getProcessProfile,
+  getTeamIterations,
+  isCreatedItem,
+  resolveDuplicate,
+  validateConnection,
+  BatchCreateResult,
+  ExtendedWorkItemResult,
+  ProcessProfile,
+  StatusUpdateResult,
+} from "./services/devopsService";
 import {
   createSummaryCard,
+  createConfirmationCard,
+  createPreviousRunCard,
   createProcessingCard,
   createErrorCard,
   createMeetingListCard,
@@ -28,9 +57,133 @@ import {
 } from "./cards/summaryCard";
 import { config } from "./config";
 import { createCorrelationContext, ActionAgentError } from "./utils/errorHandling";
+import { KeyedQueue } from "./utils/concurrency";
 import { telemetry } from "./utils/telemetry";
+import { getSpeakers, isEmptyTranscript } from "./utils/transcriptParser";
+import {
+  ActionItem,
+  ActionItemsResponse,
+  DuplicateMatch,
+  DuplicateResolution,
+  StatusUpdate,
+} from "./models/actionItem";
+
+/**
+ * How long a run waiting for confirmation can still be confirmed
+ */
+const CONFIRMATION_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * How to rerun a meeting that already has work items: create only items not
+ * created before ("new"), or everything again ("force")
+ */
+type RerunMode = "new" | "force";
+
+/**
+ * An extraction run waiting for a human to confirm work item creation
+ */
+interface PendingConfirmation {
+  meetingSubject: string;
+  response: ActionItemsResponse;
+  meetingId: string;
+  seriesId: string;
+  /** "force" creates items even when an earlier run created them */
+  rerun?: RerunMode;
+  expiresAt: number;
+}
+
+/**
+ * Proposed status updates waiting for a human to apply them
+ */
+interface PendingStatusUpdates {
+  meetingSubject: string;
+  updates: StatusUpdate[];
+  expiresAt: number;
+}
+
+/**
+ * Action items held back as likely duplicates, waiting for a choice per item
+ */
+interface PendingDuplicates {
+  meetingSubject: string;
+  meetingId: string;
+  seriesId: string;
+  rerun?: RerunMode;
+  /** Indexed by the choices on the summary card; resolved matches have a resolution */
+  matches: DuplicateMatch[];
+  expiresAt: number;
+}
+
+/**
+ * Action items that failed to be created, waiting for "Retry Failed Items"
+ */
+interface PendingRetry {
+  meetingSubject: string;
+  meetingId: string;
+  seriesId: string;
+  rerun?: RerunMode;
+  tasks: ActionItem[];
+  expiresAt: number;
+}
+
+/**
+ * Tokens and cost for the health check, e.g. "12,345 tokens, $0.42 of $5.00"
+ */
+function formatUsage(totals: UsageTotals, budgetUsd: number): string {
+  const tokens = (totals.promptTokens + totals.completionTokens).toLocaleString("en-US");
+  const budget = budgetUsd > 0 ? ` of $${budgetUsd.toFixed(2)}` : "";
+  return `${tokens} tokens, $${totals.costUsd.toFixed(2)}${budget} (${totals.calls} calls)`;
+}
+
+/**
+ * Work item types in use, e.g. "Task, Bug, User Story → Product Backlog Item (Scrum)"
+ */
+function formatTypeMap(profile: ProcessProfile): string {
+  const types = Object.entries(profile.typeMap)
+    .map(([from, to]) => (from === to ? from : `${from} → ${to}`))
+    .join(", ");
+  return profile.processName ? `${types} (${profile.processName})` : types;
+}
+
+/**
+ * One line per applied status update, e.g. "✅ #42 Fix login timeout → Closed"
+ */
+function formatStatusUpdateResult(result: StatusUpdateResult): string {
+  const item = `#${result.workItemId}${result.title ? ` ${result.title}` : ""}`;
+  if (!result.success) {
+    return `❌ ${item}: ${result.error || "update failed"}`;
+  }
+  return result.newState ? `✅ ${item} → ${result.newState}` : `💬 ${item}: commented (${result.status})`;
+}
+
+/**
+ * What was done with a likely duplicate, e.g. "🔗 Created #57 Fix login timeout, related to #42"
+ */
+function formatDuplicateResolution(
+  match: DuplicateMatch,
+  workItem: ExtendedWorkItemResult | undefined
+): string {
+  const [duplicate] = match.candidates;
+  if (!workItem) {
+    return `💬 Commented on #${duplicate.id} ${duplicate.title} instead of creating "${match.task.title}"`;
+  }
+  return workItem.relatedWorkItemId
+    ? `🔗 Created #${workItem.id} ${workItem.title}, related to #${workItem.relatedWorkItemId}`
+    : `✅ Created #${workItem.id} ${workItem.title}`;
+}
 
 export class ActionAgentBot extends TeamsActivityHandler {
+  // Suspicious runs by confirmation ID (the run's correlation ID)
+  private readonly pendingConfirmations = new Map<string, PendingConfirmation>();
+  // Proposed status updates by the run's correlation ID
+  private readonly pendingStatusUpdates = new Map<string, PendingStatusUpdates>();
+  // Likely duplicates by the run's correlation ID
+  private readonly pendingDuplicates = new Map<string, PendingDuplicates>();
+  // Items that failed to be created by the run's correlation ID
+  private readonly pendingRetries = new Map<string, PendingRetry>();
+  // Processing runs, one at a time per meeting ID
+  private readonly meetingRuns = new KeyedQueue();
+
   constructor() {
     super();
 
@@ -75,7 +228,7 @@ export class ActionAgentBot extends TeamsActivityHandler {
   }
 
   /**
-   * Handles the "process meeting" command
+   * Handles the "process meeting" and "reprocess meeting" commands
    */
   private async handleProcessMeetingCommand(context: TurnContext): Promise<void> {
     const correlationContext = createCorrelationContext("Bot.ProcessMeeting");
@@ -109,8 +262,9 @@ export class ActionAgentBot extends TeamsActivityHandler {
       );
       
       if (meetingIdMatch) {
-        // Process specific meeting
-        await this.processMeeting(context, meetingIdMatch[1], userId, correlationContext);
+        // Process specific meeting; "reprocess" skips the cached extraction
+        const refresh = /\breprocess\b/i.test(context.activity.text || "");
+        await this.processMeeting(context, meetingIdMatch[1], userId, correlationContext, refresh);
       } else {
         // Show list of recent meetings to choose from
         await this.handleListMeetingsCommand(context);
@@ -196,7 +350,14 @@ export class ActionAgentBot extends TeamsActivityHandler {
               context,
               context.activity.from.id
             );
-            await this.processMeeting(context, meetingId, member.aadObjectId!, correlationContext);
+            await this.processMeeting(
+              context,
+              meetingId,
+              member.aadObjectId!,
+              correlationContext,
+              value.refresh === true,
+              value.rerun === "new" || value.rerun === "force" ? value.rerun : undefined
+            );
           } else {
             await context.sendActivity("Please select a meeting first.");
           }
@@ -207,6 +368,26 @@ export class ActionAgentBot extends TeamsActivityHandler {
         case "retry":
           await this.handleListMeetingsCommand(context);
           break;
+        case "confirmWorkItems":
+          await this.handleConfirmation(context, value.confirmationId as string, true);
+          break;
+        case "discardWorkItems":
+          await this.handleConfirmation(context, value.confirmationId as string, false);
+          break;
+        case "applyStatusUpdates":
+          await this.handleApplyStatusUpdates(context, value.confirmationId as string);
+          break;
+        case "retryFailedItems":
+          await this.handleRetryFailedItems(context, value.confirmationId as string);
+          break;
+        case "resolveDuplicate":
+          await this.handleResolveDuplicate(
+            context,
+            value.confirmationId as string,
+            Number(value.index),
+            value.resolution as DuplicateResolution
+          );
+          break;
         case "help":
           await this.sendHelpCard(context);
           break;
@@ -219,13 +400,77 @@ export class ActionAgentBot extends TeamsActivityHandler {
   }
 
   /**
-   * Core meeting processing logic
+   * Processes a meeting once earlier runs for the same meeting have finished,
+   * so a second click sees the first run's work items
    */
   private async processMeeting(
     context: TurnContext,
     meetingId: string,
     userId: string,
-    correlationContext: ReturnType<typeof createCorrelationContext>
+    correlationContext: ReturnType<typeof createCorrelationContext>,
+    refresh: boolean = false,
+    rerun?: RerunMode
+  ): Promise<void> {
+    await this.runForMeeting(context, meetingId, () =>
+      this.runMeetingProcessing(context, meetingId, userId, correlationContext, refresh, rerun)
+    );
+  }
+
+  /**
+   * Runs fn after any other work on the meeting (processing, confirmation,
+   * retries, duplicate choices), so work items are never created twice
+   * The queue only covers this process: with several bot instances, runs on
+   * other instances are caught by skipCreatedItems right before creation
+   */
+  private async runForMeeting(
+    context: TurnContext,
+    meetingId: string,
+    fn: () => Promise<void>
+  ): Promise<void> {
+    if (this.meetingRuns.isBusy(meetingId)) {
+      await context.sendActivity(
+        "⏳ This meeting is already being processed. Your request will continue when that run finishes."
+      );
+    }
+
+    await this.meetingRuns.run(meetingId, fn);
+  }
+
+  /**
+   * Drops action items an earlier run for the meeting already created, unless
+   * the run was forced; checked again right before creation, since another run
+   * may have created them after this one's extraction
+   * @throws ActionAgentError when earlier runs cannot be looked up, so nothing is created twice
+   */
+  private async skipCreatedItems(
+    meetingId: string,
+    tasks: ActionItem[],
+    rerun: RerunMode | undefined
+  ): Promise<ActionItem[]> {
+    if (rerun === "force" || tasks.length === 0) {
+      return tasks;
+    }
+
+    const createdItems = await getMeetingWorkItems(meetingId);
+    const remaining = tasks.filter((task) => !isCreatedItem(task, createdItems));
+    if (remaining.length < tasks.length) {
+      telemetry.info("Skipped action items created by an earlier run", {
+        skipped: tasks.length - remaining.length,
+      });
+    }
+    return remaining;
+  }
+
+  /**
+   * Core meeting processing logic
+   */
+  private async runMeetingProcessing(
+    context: TurnContext,
+    meetingId: string,
+    userId: string,
+    correlationContext: ReturnType<typeof createCorrelationContext>,
+    refresh: boolean,
+    rerun: RerunMode | undefined
   ): Promise<void> {
     const timer = telemetry.startTimer("Bot.ProcessMeeting");
     
@@ -234,9 +479,24 @@ export class ActionAgentBot extends TeamsActivityHandler {
       const meetingDetails = await getMeetingDetails(meetingId, userId);
       telemetry.info("Processing meeting", { 
         subject: meetingDetails.subject,
-        correlationId: correlationContext.correlationId 
+        correlationId: correlationContext.correlationId,
+        rerun,
       });
 
+      // Work items from earlier runs: ask before creating a second set
+      const previousItems = rerun === "force" ? [] : await getMeetingWorkItems(meetingId);
+      if (previousItems.length > 0 && rerun !== "new") {
+        timer.stop();
+        await context.sendActivity({
+          attachments: [
+            CardFactory.adaptiveCard(
+              createPreviousRunCard(meetingDetails.subject, meetingId, previousItems, refresh)
+            ),
+          ],
+        });
+        return;
+      }
+
       // Show processing card
       await context.sendActivity({
         attachments: [
@@ -249,7 +509,7 @@ export class ActionAgentBot extends TeamsActivityHandler {
       // Step 1: Fetch transcript
       const transcript = await getMeetingTranscript(meetingId, userId);
 
-      if (!transcript || transcript.trim().length === 0) {
+      if (isEmptyTranscript(transcript)) {
         timer.stop();
         await context.sendActivity({
           attachments: [
@@ -278,9 +538,54 @@ export class ActionAgentBot extends TeamsActivityHandler {
         ],
       });
       
-      const actionItemsResponse = await extractActionItems(transcript);
+      // Mask PII and secrets before the transcript leaves the service
+      const redaction = redactTranscript(transcript);
 
-      if (actionItemsResponse.actionItems.length === 0) {
+      const extracted = await extractActionItems(redaction.transcript, {
+        scope: {
+          teamId: teamsGetTeamInfo(context.activity)?.id,
+          conversationId: context.activity.conversation.id,
+        },
+        variables: {
+          meetingSubject: meetingDetails.subject,
+          meetingDate: meetingDetails.startDateTime?.slice(0, 10),
+          attendees: Array.from(
+            new Set([...getSpeakers(transcript), ...meetingDetails.participants.filter(Boolean)])
+          ),
+        },
+        calibration: await getEstimateReferences(config.estimation.calibrationItems),
+        // Items this meeting produced in an earlier run are not progress on earlier work
+        openItems: await getOpenSeriesItems(meetingDetails.seriesId, meetingId),
+        refresh,
+        usageScope: {
+          meetingId,
+          conversationId: context.activity.conversation.id,
+          tenantId: context.activity.conversation.tenantId,
+        },
+      });
+      const restored = restoreResponse(extracted, redaction);
+      // Items created by an earlier run are skipped
+      const newItems = restored.actionItems.filter((task) => !isCreatedItem(task, previousItems));
+      if (newItems.length < restored.actionItems.length) {
+        telemetry.info("Skipped action items created by an earlier run", {
+          skipped: restored.actionItems.length - newItems.length,
+        });
+      }
+      const actionItemsResponse: ActionItemsResponse = {
+        ...restored,
+        // Spoken deadlines count from the meeting, in the requester's timezone;
+        // sprint deadlines use the team's real iteration dates
+        actionItems: resolveDeadlines(newItems, {
+          date: meetingDetails.startDateTime,
+          timeZone: context.activity.localTimezone,
+          iterations: (await getTeamIterations()).iterations,
+        }),
+      };
+
+      if (
+        actionItemsResponse.actionItems.length === 0 &&
+        !actionItemsResponse.statusUpdates?.length
+      ) {
         timer.stop();
         telemetry.info("No action items found in meeting");
         await context.sendActivity({
@@ -290,6 +595,36 @@ export class ActionAgentBot extends TeamsActivityHandler {
                 [],
                 meetingDetails.subject,
                 actionItemsResponse.summary || "No technical action items were identified in this meeting.",
+                correlationContext.correlationId,
+                actionItemsResponse.warnings,
+                actionItemsResponse
+              )
+            ),
+          ],
+        });
+        return;
+      }
+
+      // Instruction-like utterances or unusual results need a human to confirm
+      const screening = screenExtraction(transcript, actionItemsResponse);
+      if (screening.suspicious) {
+        timer.stop();
+        this.addPendingConfirmation(correlationContext.correlationId, {
+          meetingSubject: meetingDetails.subject,
+          response: actionItemsResponse,
+          meetingId,
+          seriesId: meetingDetails.seriesId,
+          rerun,
+          expiresAt: Date.now() + CONFIRMATION_TTL_MS,
+        });
+        await context.sendActivity({
+          attachments: [
+            CardFactory.adaptiveCard(
+              createConfirmationCard(
+                actionItemsResponse.actionItems,
+                meetingDetails.subject,
+                screening.reasons,
+                correlationContext.correlationId,
                 correlationContext.correlationId
               )
             ),
@@ -298,43 +633,383 @@ export class ActionAgentBot extends TeamsActivityHandler {
         return;
       }
 
+      await this.createAndReportWorkItems(
+        context,
+        meetingDetails.subject,
+        actionItemsResponse,
+        meetingId,
+        meetingDetails.seriesId,
+        correlationContext.correlationId,
+        rerun
+      );
+      timer.stop();
+    } catch (error) {
+      timer.stop();
+      telemetry.trackFailure("Bot.ProcessMeeting", "ProcessingError");
+      await this.sendErrorCard(context, error, correlationContext.correlationId);
+    }
+  }
+
+  /**
+   * Steps 3 and 4: creates the work items and sends the summary card
+   * Status updates are only proposed; they are applied from the summary card.
+   * Likely duplicates are held for review or handled by DUPLICATE_POLICY.
+   */
+  private async createAndReportWorkItems(
+    context: TurnContext,
+    meetingSubject: string,
+    actionItemsResponse: ActionItemsResponse,
+    meetingId: string,
+    seriesId: string,
+    correlationId: string,
+    rerun?: RerunMode
+  ): Promise<void> {
+    let workItems: BatchCreateResult = { created: [], failed: [] };
+    let duplicates: DuplicateMatch[] = [];
+    // Another run for the meeting may have created the items since they were extracted
+    const tasks = await this.skipCreatedItems(meetingId, actionItemsResponse.actionItems, rerun);
+    if (tasks.length > 0) {
       // Step 3: Create work items in Azure DevOps
       await context.sendActivity({
         attachments: [
           CardFactory.adaptiveCard(
             createProcessingCard(
-              meetingDetails.subject, 
-              `Step 3/4: Creating ${actionItemsResponse.actionItems.length} work items in Azure DevOps...`
+              meetingSubject,
+              `Step 3/4: Creating ${tasks.length} work items in Azure DevOps...`
             )
           ),
         ],
       });
-      
-      const workItems = await createWorkItems(actionItemsResponse.actionItems);
 
-      // Step 4: Send summary card
-      timer.stop();
-      telemetry.trackSuccess("Bot.ProcessMeeting", { 
-        itemsCreated: String(workItems.length) 
+      duplicates = await findDuplicates(tasks, seriesId);
+      const held = new Set(duplicates.map((match) => match.task));
+      workItems = await createWorkItems(
+        tasks.filter((task) => !held.has(task)),
+        true,
+        seriesId,
+        meetingId,
+        meetingSubject
+      );
+      workItems.created.push(
+        ...(await this.applyDuplicatePolicy(duplicates, meetingSubject, meetingId, seriesId))
+      );
+    }
+
+    if (workItems.failed.length > 0) {
+      this.addPending(this.pendingRetries, correlationId, {
+        meetingSubject,
+        meetingId,
+        seriesId,
+        rerun,
+        tasks: workItems.failed.map((failure) => failure.task),
+        expiresAt: Date.now() + CONFIRMATION_TTL_MS,
+      });
+    }
+
+    // Duplicates not handled by the policy wait for a choice on the card
+    if (duplicates.some((match) => !match.resolution)) {
+      this.addPending(this.pendingDuplicates, correlationId, {
+        meetingSubject,
+        meetingId,
+        seriesId,
+        rerun,
+        matches: duplicates,
+        expiresAt: Date.now() + CONFIRMATION_TTL_MS,
+      });
+    }
+
+    const statusUpdates = actionItemsResponse.statusUpdates || [];
+    if (statusUpdates.length > 0) {
+      this.addPending(this.pendingStatusUpdates, correlationId, {
+        meetingSubject,
+        updates: statusUpdates,
+        expiresAt: Date.now() + CONFIRMATION_TTL_MS,
       });
+    }
+
+    // Step 4: Send summary card
+    telemetry.trackSuccess("Bot.ProcessMeeting", {
+      itemsCreated: String(workItems.created.length),
+      itemsFailed: String(workItems.failed.length),
+    });
+
+    await context.sendActivity({
+      attachments: [
+        CardFactory.adaptiveCard(
+          createSummaryCard(
+            workItems.created,
+            meetingSubject,
+            actionItemsResponse.summary,
+            correlationId,
+            actionItemsResponse.warnings,
+            actionItemsResponse,
+            statusUpdates,
+            duplicates,
+            workItems.failed
+          )
+        ),
+      ],
+    });
+  }
+
+  /**
+   * Creates the work items that failed in an earlier attempt and sends a summary
+   * card for them; items that fail again can be retried from that card
+   */
+  private async handleRetryFailedItems(context: TurnContext, confirmationId: string): Promise<void> {
+    const pending = this.pendingRetries.get(confirmationId);
+    this.pendingRetries.delete(confirmationId);
+
+    if (!pending || pending.expiresAt <= Date.now()) {
+      await context.sendActivity(
+        "⌛ This retry has expired or was already done. Type `process meeting` to run it again."
+      );
+      return;
+    }
+
+    telemetry.info("Retrying failed work items", {
+      correlationId: confirmationId,
+      count: pending.tasks.length,
+    });
+
+    await this.runForMeeting(context, pending.meetingId, async () => {
+      // A failed batch may have been partly applied, so created items are skipped
+      const tasks = await this.skipCreatedItems(pending.meetingId, pending.tasks, pending.rerun);
+      const result = await createWorkItems(
+        tasks,
+        true,
+        pending.seriesId,
+        pending.meetingId,
+        pending.meetingSubject
+      );
+      if (result.failed.length > 0) {
+        this.addPending(this.pendingRetries, confirmationId, {
+          ...pending,
+          tasks: result.failed.map((failure) => failure.task),
+          expiresAt: Date.now() + CONFIRMATION_TTL_MS,
+        });
+      }
 
       await context.sendActivity({
         attachments: [
           CardFactory.adaptiveCard(
             createSummaryCard(
-              workItems,
-              meetingDetails.subject,
-              actionItemsResponse.summary,
-              correlationContext.correlationId
+              result.created,
+              pending.meetingSubject,
+              undefined,
+              confirmationId,
+              undefined,
+              {},
+              [],
+              [],
+              result.failed
             )
           ),
         ],
       });
-    } catch (error) {
-      timer.stop();
-      telemetry.trackFailure("Bot.ProcessMeeting", "ProcessingError");
-      await this.sendErrorCard(context, error, correlationContext.correlationId);
+    });
+  }
+
+  /**
+   * Handles likely duplicates without asking unless DUPLICATE_POLICY is "review";
+   * matches that fail are left unresolved so they can be reviewed on the card
+   * @returns The work items created for them
+   */
+  private async applyDuplicatePolicy(
+    duplicates: DuplicateMatch[],
+    meetingSubject: string,
+    meetingId: string,
+    seriesId: string
+  ): Promise<ExtendedWorkItemResult[]> {
+    const policy = config.duplicates.policy;
+    if (policy === "review") {
+      return [];
+    }
+
+    const workItems: ExtendedWorkItemResult[] = [];
+    for (const match of duplicates) {
+      try {
+        const workItem = await resolveDuplicate(match, policy, meetingSubject, seriesId, meetingId);
+        match.resolution = policy;
+        if (workItem) {
+          workItems.push(workItem);
+        }
+      } catch (error) {
+        telemetry.error("Failed to apply duplicate policy", error as Error, {
+          title: match.task.title,
+          policy,
+        });
+      }
+    }
+    return workItems;
+  }
+
+  /**
+   * Creates or discards the work items of a run that was held for confirmation
+   */
+  private async handleConfirmation(
+    context: TurnContext,
+    confirmationId: string,
+    confirmed: boolean
+  ): Promise<void> {
+    const pending = this.pendingConfirmations.get(confirmationId);
+    this.pendingConfirmations.delete(confirmationId);
+
+    if (!pending || pending.expiresAt <= Date.now()) {
+      await context.sendActivity(
+        "⌛ This review has expired or was already handled. Type `process meeting` to run it again."
+      );
+      return;
+    }
+
+    telemetry.info("Suspicious extraction run reviewed", {
+      correlationId: confirmationId,
+      confirmed,
+      reviewer: context.activity.from.aadObjectId || context.activity.from.id,
+    });
+    telemetry.trackMetric("Security.ConfirmationOutcome", 1, "count", {
+      outcome: confirmed ? "confirmed" : "discarded",
+    });
+
+    if (!confirmed) {
+      await context.sendActivity(
+        `🗑️ Discarded ${pending.response.actionItems.length} proposed work items for "${pending.meetingSubject}". Nothing was created.`
+      );
+      return;
+    }
+
+    // Another run for the meeting may have created the items while this one
+    // waited; createAndReportWorkItems skips them
+    await this.runForMeeting(context, pending.meetingId, async () => {
+      await this.createAndReportWorkItems(
+        context,
+        pending.meetingSubject,
+        pending.response,
+        pending.meetingId,
+        pending.seriesId,
+        confirmationId,
+        pending.rerun
+      );
+    });
+  }
+
+  /**
+   * Applies the status updates proposed on a summary card
+   */
+  private async handleApplyStatusUpdates(context: TurnContext, confirmationId: string): Promise<void> {
+    const pending = this.pendingStatusUpdates.get(confirmationId);
+    this.pendingStatusUpdates.delete(confirmationId);
+
+    if (!pending || pending.expiresAt <= Date.now()) {
+      await context.sendActivity(
+        "⌛ These status updates have expired or were already applied. Type `process meeting` to run it again."
+      );
+      return;
+    }
+
+    telemetry.info("Applying status updates", {
+      correlationId: confirmationId,
+      count: pending.updates.length,
+      reviewer: context.activity.from.aadObjectId || context.activity.from.id,
+    });
+
+    const results = await applyStatusUpdates(pending.updates, pending.meetingSubject);
+    const applied = results.filter((result) => result.success).length;
+
+    await context.sendActivity(
+      [
+        `🔄 Applied ${applied} of ${results.length} status updates for "${pending.meetingSubject}":`,
+        ...results.map(formatStatusUpdateResult),
+      ].join("\n")
+    );
+  }
+
+  /**
+   * Creates, links or comments on one likely duplicate as chosen on the summary card
+   */
+  private async handleResolveDuplicate(
+    context: TurnContext,
+    confirmationId: string,
+    index: number,
+    resolution: DuplicateResolution
+  ): Promise<void> {
+    const pending = this.pendingDuplicates.get(confirmationId);
+    const match = pending?.matches[index];
+
+    if (!pending || pending.expiresAt <= Date.now() || !match || match.resolution) {
+      await context.sendActivity(
+        "⌛ This duplicate has expired or was already handled. Type `process meeting` to run it again."
+      );
+      return;
+    }
+    if (!["link", "comment", "create"].includes(resolution)) {
+      await context.sendActivity("Unknown action. Type `help` for available commands.");
+      return;
+    }
+
+    telemetry.info("Likely duplicate reviewed", {
+      correlationId: confirmationId,
+      resolution,
+      duplicateId: match.candidates[0]?.id,
+      reviewer: context.activity.from.aadObjectId || context.activity.from.id,
+    });
+
+    // Claimed before the await so a second click cannot create the item twice
+    match.resolution = resolution;
+    await this.runForMeeting(context, pending.meetingId, async () => {
+      let workItem: ExtendedWorkItemResult | undefined;
+      let alreadyCreated = false;
+      try {
+        alreadyCreated =
+          resolution !== "comment" &&
+          (await this.skipCreatedItems(pending.meetingId, [match.task], pending.rerun)).length === 0;
+        if (!alreadyCreated) {
+          workItem = await resolveDuplicate(
+            match,
+            resolution,
+            pending.meetingSubject,
+            pending.seriesId,
+            pending.meetingId
+          );
+        }
+      } catch (error) {
+        match.resolution = undefined;
+        throw error;
+      }
+
+      if (pending.matches.every((entry) => entry.resolution)) {
+        this.pendingDuplicates.delete(confirmationId);
+      }
+      await context.sendActivity(
+        alreadyCreated
+          ? `⏭️ "${match.task.title}" was already created by another run for this meeting.`
+          : formatDuplicateResolution(match, workItem)
+      );
+    });
+  }
+
+  /**
+   * Holds a run for confirmation, dropping runs nobody reviewed in time
+   */
+  private addPendingConfirmation(confirmationId: string, pending: PendingConfirmation): void {
+    this.addPending(this.pendingConfirmations, confirmationId, pending);
+  }
+
+  /**
+   * Stores an entry awaiting a card action, dropping expired entries
+   */
+  private addPending<T extends { expiresAt: number }>(
+    pendingMap: Map<string, T>,
+    id: string,
+    pending: T
+  ): void {
+    const now = Date.now();
+    for (const [key, entry] of pendingMap) {
+      if (entry.expiresAt <= now) {
+        pendingMap.delete(key);
+      }
     }
+    pendingMap.set(id, pending);
   }
 
   /**
@@ -345,18 +1020,31 @@ export class ActionAgentBot extends TeamsActivityHandler {
     
     try {
       const adoConnected = await validateConnection();
+      const profile = await getProcessProfile();
       
       const healthMetrics = telemetry.getHealthMetrics();
+      const usage = getUsageSummary();
+      const tenantId = context.activity.conversation.tenantId;
+      const tenantUsage = tenantId ? usage.byTenant[tenantId] : undefined;
       
       const status = [
         "🔍 **ActionAgent Health Check**",
         "",
         `✅ Bot Framework: Connected`,
         `${adoConnected ? "✅" : "❌"} Azure DevOps: ${adoConnected ? "Connected" : "Disconnected"}`,
-        `✅ Azure OpenAI: Configured (${config.azureOpenAI.deployment})`,
+        `✅ LLM: Configured (${config.llm.provider}, ${config.llm.model})`,
         "",
         `**Environment:** ${config.server.environment}`,
         `**Project:** ${config.azureDevOps.project}`,
+        `**Work Item Types:** ${formatTypeMap(profile)}`,
+        `**Prompt Template:** ${selectPromptTemplate({
+          teamId: teamsGetTeamInfo(context.activity)?.id,
+          conversationId: context.activity.conversation.id,
+        })}`,
+        `**LLM Usage Today:** ${formatUsage(usage.total, usage.budgets.dailyUsd)}`,
+        ...(tenantUsage
+          ? [`**Tenant Usage Today:** ${formatUsage(tenantUsage, usage.budgets.tenantDailyUsd)}`]
+          : []),
         `**Uptime:** ${Math.floor(healthMetrics.uptime as number)}s`,
         "",
         "_Type 'process meeting' to analyze a meeting transcript._",
@@ -0,0 +1,66 @@
+/**
+ * Concurrency Helpers
+ * Bounded parallelism for fan-out work such as per-chunk model calls, and
+ * one-at-a-time runs per key such as processing of the same meeting
+ */
+
+/**
+ * Maps items through an async function with at most `limit` calls in flight
+ * Every item is attempted; results keep input order and record each failure
+ * instead of rejecting, so callers can decide what a partial failure means
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  // A limit below 1 or NaN (e.g. a mistyped setting) still runs one call at a time
+  const workers = Number.isNaN(limit) ? 1 : Math.max(1, Math.min(Math.floor(limit), items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Runs tasks one at a time per key, in the order they were queued;
+ * tasks for different keys run in parallel
+ */
+export class KeyedQueue {
+  private readonly tails = new Map<string, Promise<unknown>>();
+
+  /**
+   * Whether a task for the key is running or waiting
+   */
+  isBusy(key: string): boolean {
+    return this.tails.has(key);
+  }
+
+  /**
+   * Runs fn after every earlier task for the key has settled
+   */
+  run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const result = previous.catch(() => undefined).then(fn);
+    const tail = result.catch(() => undefined).then(() => {
+      // Forget the key once nothing else was queued behind this task
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+    this.tails.set(key, tail);
+    return result;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * JSON Schema Validation
+ * Minimal validator for the JSON Schema subset used by ActionAgent's LLM
+ * response schemas: type, required, properties, items, enum, min/maxLength,
+ * minimum/maximum
+ */
+
+/**
+ * Supported schema keywords
+ */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+  required?: readonly string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * A single field-level validation error
+ */
+export interface SchemaValidationError {
+  /** JSON path of the offending value, e.g. "$.actionItems[2].priority" */
+  path: string;
+  message: string;
+}
+
+/**
+ * Validates a value against a schema and returns every error found
+ * @returns An empty array when the value is valid
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = "$"
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push({ path, message: `expected ${schema.type}, got ${describeType(value)}` });
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({
+      path,
+      message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}, got ${JSON.stringify(value)}`,
+    });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined || value[key] === null) {
+        errors.push({ path: `${path}.${key}`, message: "is required" });
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[key] !== undefined && value[key] !== null) {
+        errors.push(...validateSchema(value[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Formats errors as one "path: message" line each
+ */
+export function formatValidationErrors(errors: SchemaValidationError[]): string {
+  return errors.map((e) => `${e.path}: ${e.message}`).join("\n");
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema["type"]>): boolean {
+  switch (type) {
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
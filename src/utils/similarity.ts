@@ -0,0 +1,97 @@
+/**
+ * Text Similarity
+ * Dependency-free measures for matching short texts such as work item titles
+ *
+ * - Token overlap (Jaccard) on content words, ignoring stop words and plurals
+ * - Fuzzy ratio (Sørensen–Dice on character bigrams) for typos and word forms
+ * - Cosine similarity for embedding vectors
+ */
+
+/**
+ * Words that carry no meaning in a task title
+ */
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "of", "on", "in", "at", "to", "for", "from",
+  "by", "with", "into", "onto", "our", "my", "your", "their", "its", "this",
+  "that", "these", "those", "is", "are", "be", "it", "some", "all",
+]);
+
+/**
+ * Lowercased content words, with a trailing plural "s" removed
+ */
+export function contentTokens(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter((word) => !STOP_WORDS.has(word))
+    .map((word) => (word.length > 3 && /[^s]s$/.test(word) ? word.slice(0, -1) : word));
+}
+
+/**
+ * Jaccard index of the content-word sets of two texts (0-1)
+ */
+export function tokenOverlap(a: string, b: string): number {
+  const left = new Set(contentTokens(a));
+  const right = new Set(contentTokens(b));
+  if (left.size === 0 && right.size === 0) return 1;
+
+  let shared = 0;
+  for (const token of left) {
+    if (right.has(token)) shared++;
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Dice coefficient of the character bigrams of two texts (0-1)
+ */
+export function fuzzyRatio(a: string, b: string): number {
+  const left = bigrams(contentTokens(a).join(" "));
+  const right = bigrams(contentTokens(b).join(" "));
+  if (left.length === 0 && right.length === 0) return 1;
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of left) {
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+
+  let shared = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Similarity of two short texts (0-1): the better of token overlap and fuzzy ratio
+ */
+export function textSimilarity(a: string, b: string): number {
+  return Math.max(tokenOverlap(a, b), fuzzyRatio(a, b));
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or zero)
+ */
+export function cosineSimilarity(a: readonly number[], b: readonly number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function bigrams(text: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) {
+    grams.push(text.slice(i, i + 2));
+  }
+  return grams;
+}
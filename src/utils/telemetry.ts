@@ -11,7 +11,7 @@ import { config } from "../config";
 export interface Metric {
   name: string;
   value: number;
-  unit: "ms" | "count" | "bytes";
+  unit: "ms" | "count" | "bytes" | "tokens" | "usd";
   tags: Record<string, string>;
   timestamp: Date;
 }
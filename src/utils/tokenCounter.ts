@@ -0,0 +1,66 @@
+/**
+ * Token Counting
+ * Dependency-free token estimates for prompt budgeting, plus known model
+ * context window sizes
+ *
+ * The estimate deliberately errs on the high side of GPT tokenizers for
+ * English text, so chunks built from it fit within the real limit.
+ */
+
+/**
+ * Context window sizes (prompt + completion tokens) by model family
+ * Matched by prefix, longest first, so "gpt-4o-mini" wins over "gpt-4"
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "gpt-4o": 128000,
+  "gpt-4o-mini": 128000,
+  "gpt-4.1": 1047576,
+  "gpt-4-turbo": 128000,
+  "gpt-4-32k": 32768,
+  "gpt-4": 8192,
+  "gpt-35-turbo-16k": 16385,
+  "gpt-35-turbo": 16385,
+  "gpt-3.5-turbo": 16385,
+  "o1": 200000,
+  "o3": 200000,
+  "llama3": 8192,
+  "llama-3": 8192,
+  "mistral": 32768,
+};
+
+/**
+ * Context window assumed for unknown (e.g. self-hosted) models
+ */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Estimates the number of tokens in a piece of text
+ * Words count one token per five letters (minimum one), digit runs one token
+ * per three digits, and every punctuation mark one token
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  let tokens = 0;
+  for (const piece of text.match(/[\p{L}']+|\d+|[^\s\p{L}\d]/gu) || []) {
+    if (/^\d+$/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/^[\p{L}']+$/u.test(piece)) {
+      tokens += Math.max(1, Math.ceil(piece.length / 5));
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Looks up the context window for a model or deployment name
+ * Azure deployment names usually carry the model name (e.g. "prod-gpt-4o")
+ */
+export function getModelContextWindow(model: string): number {
+  const normalized = model.toLowerCase();
+  const families = Object.keys(MODEL_CONTEXT_WINDOWS).sort((a, b) => b.length - a.length);
+  const family = families.find((name) => normalized.includes(name));
+  return family ? MODEL_CONTEXT_WINDOWS[family] : DEFAULT_CONTEXT_WINDOW;
+}
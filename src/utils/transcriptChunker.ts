@@ -0,0 +1,199 @@
+/**
+ * Transcript Chunking
+ * Splits long transcripts into token-bounded chunks for the model
+ *
+ * Features:
+ * - Budgets measured in (estimated) model tokens, not characters
+ * - Chunks break at speaker turns, then at utterances, never mid-sentence
+ *   unless a single utterance exceeds the budget
+ * - Configurable overlap: each chunk repeats the tail of the previous one so
+ *   commitments spanning a boundary are seen whole
+ */
+
+import { Transcript, Utterance } from "../models/transcript";
+import { formatUtterance } from "./transcriptParser";
+import { estimateTokens } from "./tokenCounter";
+
+/**
+ * One chunk of a transcript
+ */
+export interface TranscriptChunk {
+  index: number;
+  /** Utterances in the chunk, including the leading overlap */
+  utterances: Utterance[];
+  /** Number of leading utterances repeated from the previous chunk */
+  overlapCount: number;
+  /** Estimated tokens of the rendered chunk */
+  tokenCount: number;
+}
+
+/**
+ * Chunking limits
+ */
+export interface ChunkingOptions {
+  /** Maximum estimated tokens per chunk (overlap included) */
+  maxTokens: number;
+  /** Tokens of trailing context repeated at the start of the next chunk */
+  overlapTokens: number;
+}
+
+/**
+ * Splits a transcript into chunks that each fit within options.maxTokens
+ */
+export function chunkTranscript(
+  transcript: Transcript,
+  options: ChunkingOptions
+): TranscriptChunk[] {
+  const maxTokens = Math.max(1, options.maxTokens);
+  // Overlap may use at most half the budget so every chunk makes progress
+  const overlapTokens = Math.min(Math.max(0, options.overlapTokens), Math.floor(maxTokens / 2));
+
+  const turns = groupIntoTurns(splitOversizedUtterances(transcript.utterances, maxTokens));
+  const chunks: TranscriptChunk[] = [];
+
+  let current: Utterance[] = [];
+  let currentTokens = 0;
+  let overlapCount = 0;
+
+  const flush = () => {
+    if (current.length === overlapCount) return;
+    chunks.push({ index: chunks.length, utterances: current, overlapCount, tokenCount: currentTokens });
+
+    const overlap = takeTail(current, overlapTokens);
+    current = overlap;
+    overlapCount = overlap.length;
+    currentTokens = sumTokens(overlap);
+  };
+
+  const trimOverlap = (needed: number) => {
+    // Drop repeated context that leaves no room for new content
+    while (currentTokens + needed > maxTokens && overlapCount > 0) {
+      currentTokens -= utteranceTokens(current.shift()!);
+      overlapCount--;
+    }
+  };
+
+  for (const turn of turns) {
+    const turnTokens = sumTokens(turn);
+
+    // Start a new chunk at the turn boundary when the turn does not fit
+    if (currentTokens + turnTokens > maxTokens && current.length > overlapCount) {
+      flush();
+    }
+    trimOverlap(turnTokens);
+
+    if (currentTokens + turnTokens <= maxTokens) {
+      current.push(...turn);
+      currentTokens += turnTokens;
+      continue;
+    }
+
+    // The turn alone exceeds a chunk: break at utterance boundaries
+    for (const utterance of turn) {
+      const tokens = utteranceTokens(utterance);
+      if (currentTokens + tokens > maxTokens && current.length > overlapCount) {
+        flush();
+      }
+      trimOverlap(tokens);
+      current.push(utterance);
+      currentTokens += tokens;
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+/**
+ * Renders a chunk as prompt text, marking the repeated overlap as context
+ */
+export function formatChunk(chunk: TranscriptChunk): string {
+  const lines = chunk.utterances.map(formatUtterance);
+  if (chunk.overlapCount === 0) {
+    return lines.join("\n");
+  }
+
+  return [
+    ...lines.slice(0, chunk.overlapCount),
+    "--- (lines above repeat the end of the previous part for context) ---",
+    ...lines.slice(chunk.overlapCount),
+  ].join("\n");
+}
+
+/**
+ * Estimated tokens of a rendered utterance line (one extra for the newline)
+ */
+function utteranceTokens(utterance: Utterance): number {
+  return estimateTokens(formatUtterance(utterance)) + 1;
+}
+
+function sumTokens(utterances: Utterance[]): number {
+  return utterances.reduce((total, u) => total + utteranceTokens(u), 0);
+}
+
+/**
+ * Consecutive utterances by the same speaker
+ */
+function groupIntoTurns(utterances: Utterance[]): Utterance[][] {
+  const turns: Utterance[][] = [];
+  for (const utterance of utterances) {
+    const last = turns[turns.length - 1];
+    if (last && last[0].speaker === utterance.speaker) {
+      last.push(utterance);
+    } else {
+      turns.push([utterance]);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Trailing utterances whose total stays within the token limit
+ */
+function takeTail(utterances: Utterance[], limit: number): Utterance[] {
+  const tail: Utterance[] = [];
+  let tokens = 0;
+  for (let i = utterances.length - 1; i >= 0; i--) {
+    const cost = utteranceTokens(utterances[i]);
+    if (tokens + cost > limit) break;
+    tail.unshift(utterances[i]);
+    tokens += cost;
+  }
+  return tail;
+}
+
+/**
+ * Split any utterance longer than the budget into word-bounded pieces
+ * that share the original speaker and timing
+ */
+function splitOversizedUtterances(utterances: Utterance[], maxTokens: number): Utterance[] {
+  const result: Utterance[] = [];
+
+  for (const utterance of utterances) {
+    if (utteranceTokens(utterance) <= maxTokens) {
+      result.push(utterance);
+      continue;
+    }
+
+    const overhead = utteranceTokens({ ...utterance, text: "" });
+    const budget = Math.max(1, maxTokens - overhead);
+    let words: string[] = [];
+    let tokens = 0;
+
+    for (const word of utterance.text.split(" ")) {
+      const cost = estimateTokens(word);
+      if (tokens + cost > budget && words.length > 0) {
+        result.push({ ...utterance, text: words.join(" ") });
+        words = [];
+        tokens = 0;
+      }
+      words.push(word);
+      tokens += cost;
+    }
+    if (words.length > 0) {
+      result.push({ ...utterance, text: words.join(" ") });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,104 @@
+/**
+ * Transcript Parser
+ * Single source of truth for turning Teams VTT transcripts into the shared
+ * Transcript model, and for rendering that model back to prompt text
+ */
+
+import { Transcript, Utterance } from "../models/transcript";
+
+/**
+ * Speaker used for cues without a <v Speaker> voice tag
+ */
+export const UNKNOWN_SPEAKER = "Unknown";
+
+/**
+ * Parse WebVTT content into a structured transcript
+ * Handles the WEBVTT header, NOTE blocks, cue identifiers, cue settings,
+ * multi-line cue payloads and <v Speaker>text</v> voice tags
+ */
+export function parseVtt(vttContent: string): Transcript {
+  if (!vttContent) return { utterances: [] };
+
+  const utterances: Utterance[] = [];
+  const blocks = vttContent.replace(/\r\n?/g, "\n").split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n").map((l) => l.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex((l) => l.includes("-->"));
+
+    // Header, NOTE and STYLE blocks have no timing line
+    if (timingIndex === -1) continue;
+
+    const timing = lines[timingIndex].match(/^(\S+)\s+-->\s+(\S+)/);
+    if (!timing) continue;
+
+    const payload = lines.slice(timingIndex + 1).join(" ");
+    const voice = payload.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+    const text = payload.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+
+    if (!text) continue;
+
+    utterances.push({
+      speaker: voice ? voice[1].trim() : UNKNOWN_SPEAKER,
+      start: parseTimestamp(timing[1]),
+      end: parseTimestamp(timing[2]),
+      text,
+    });
+  }
+
+  return { utterances };
+}
+
+/**
+ * Parse a VTT timestamp ("01:02:03.500" or "02:03.500") into seconds
+ */
+export function parseTimestamp(timestamp: string): number {
+  const parts = timestamp.split(":").map((p) => parseFloat(p));
+  if (parts.some((p) => isNaN(p))) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Format seconds as a VTT timestamp ("00:01:02.500")
+ */
+export function formatTimestamp(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return (
+    `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:` +
+    `${String(secs).padStart(2, "0")}.${String(ms).padStart(3, "0")}`
+  );
+}
+
+/**
+ * Render one utterance as a prompt line:
+ *   [00:00:12.500 - 00:00:20.000] Speaker Name: spoken text
+ */
+export function formatUtterance(utterance: Utterance): string {
+  return `[${formatTimestamp(utterance.start)} - ${formatTimestamp(utterance.end)}] ${utterance.speaker}: ${utterance.text}`;
+}
+
+/**
+ * Render a transcript as timestamped lines for the model
+ */
+export function formatTranscript(transcript: Transcript): string {
+  return transcript.utterances.map(formatUtterance).join("\n");
+}
+
+/**
+ * Distinct speakers in order of first appearance
+ */
+export function getSpeakers(transcript: Transcript): string[] {
+  return Array.from(new Set(transcript.utterances.map((u) => u.speaker)));
+}
+
+/**
+ * Whether the transcript has any spoken content
+ */
+export function isEmptyTranscript(transcript: Transcript | undefined): boolean {
+  return !transcript || transcript.utterances.length === 0;
+}
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for map-reduce extraction over a chunked transcript
+ */
+import { extractActionItems, setLlmProvider } from '../../src/services/aiService';
+import { ChatCompletionRequest, LlmProvider } from '../../src/services/llmProvider';
+import { Transcript } from '../../src/models/transcript';
+
+// Small chunks so a short transcript spans several model calls
+jest.mock('../../src/config', () => {
+  const actual = jest.requireActual('../../src/config');
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      extraction: {
+        ...actual.config.extraction,
+        chunkMaxTokens: 1000,
+        chunkOverlapTokens: 0,
+        chunkConcurrency: 2,
+      },
+    },
+  };
+});
+
+const ASSIGN = "Sarah, can you fix the login bug? Sure, I'll fix the login bug.";
+const RESCHEDULE = 'We agreed to move the login bug fix to Friday.';
+const BROKEN = 'This part of the meeting makes the model fail.';
+const FILLER = 'We should look into the deployment pipeline before the release goes out.';
+
+function meeting(lines: string[]): Transcript {
+  return {
+    utterances: lines.map((text, i) => ({
+      speaker: i % 2 ? 'Sarah Johnson' : 'John Smith',
+      start: i * 5,
+      end: i * 5 + 4,
+      text,
+    })),
+  };
+}
+
+function loginItem(quote: string, deadline?: string) {
+  return {
+    title: 'Fix the login bug',
+    assignedTo: quote === ASSIGN ? 'Sarah Johnson' : 'Unassigned',
+    type: 'Bug',
+    priority: 'High',
+    deadline,
+    source: { speaker: 'Unknown', quote },
+  };
+}
+
+/**
+ * Replies according to what the chunk contains
+ */
+function chunkAwareProvider(): LlmProvider & { requests: ChatCompletionRequest[] } {
+  const requests: ChatCompletionRequest[] = [];
+  return {
+    name: 'openai-compatible',
+    model: 'mock-model',
+    requests,
+    complete: jest.fn(async (request: ChatCompletionRequest) => {
+      requests.push(request);
+      const text = request.messages[request.messages.length - 1].content;
+      if (text.includes(BROKEN)) {
+        throw new Error('Invalid request');
+      }
+
+      const actionItems = [];
+      if (text.includes(ASSIGN)) actionItems.push(loginItem(ASSIGN));
+      if (text.includes(RESCHEDULE)) actionItems.push(loginItem(RESCHEDULE, 'Friday'));
+      return { content: JSON.stringify({ actionItems, summary: 'Part summary.' }), model: 'mock-model' };
+    }),
+  };
+}
+
+describe('extractActionItems (chunked transcripts)', () => {
+  it('should process every chunk and reconcile items across chunks', async () => {
+    const lines = Array(90).fill(FILLER);
+    lines[0] = ASSIGN;
+    lines[89] = RESCHEDULE;
+    const provider = chunkAwareProvider();
+    setLlmProvider(provider);
+
+    const result = await extractActionItems(meeting(lines));
+
+    const extractionCalls = provider.requests.filter((r) => r.jsonMode);
+    expect(extractionCalls.length).toBeGreaterThan(2);
+    expect(extractionCalls[0].messages[1].content).toContain(`[Part 1 of ${extractionCalls.length}]`);
+    expect(result.actionItems).toHaveLength(1);
+    expect(result.actionItems[0]).toMatchObject({
+      assignedTo: 'Sarah Johnson',
+      deadline: 'Friday',
+    });
+    expect(result.actionItems[0].source?.quote).toBe(ASSIGN);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('should report a failed chunk as a warning and keep the rest', async () => {
+    const lines = Array(90).fill(FILLER);
+    lines[0] = ASSIGN;
+    lines[45] = BROKEN;
+    setLlmProvider(chunkAwareProvider());
+
+    const result = await extractActionItems(meeting(lines));
+
+    expect(result.extractionMethod).toBe('llm');
+    expect(result.actionItems).toHaveLength(1);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings![0]).toMatch(/^Part \d+ of \d+ \(\d\d:\d\d:\d\d - \d\d:\d\d:\d\d\) could not be analyzed/);
+  });
+
+  it('should fail over to rules only when every chunk fails', async () => {
+    setLlmProvider(chunkAwareProvider());
+
+    const result = await extractActionItems(meeting(Array(90).fill(BROKEN)));
+
+    expect(result.extractionMethod).toBe('rules');
+  });
+});
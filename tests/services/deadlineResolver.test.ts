@@ -0,0 +1,111 @@
+/**
+ * Unit tests for deadline resolution against the meeting date and timezone
+ */
+import { resolveDeadline, resolveDeadlines } from '../../src/services/deadlineResolver';
+
+// Thursday, 15 October 2026, 09:00 in Seattle
+const meeting = { date: '2026-10-15T16:00:00Z', timeZone: 'America/Los_Angeles' };
+
+describe('resolveDeadline', () => {
+  it.each([
+    ['EOD', '2026-10-15'],
+    ['end of day tomorrow', '2026-10-16'],
+    ['the day after tomorrow', '2026-10-17'],
+    ['by Friday', '2026-10-16'],
+    ['Thursday', '2026-10-22'],
+    ['this Thursday', '2026-10-15'],
+    ['next Friday', '2026-10-23'],
+    ['Friday next week', '2026-10-23'],
+    ['next week', '2026-10-23'],
+    ['end of the week', '2026-10-16'],
+  ])('should resolve "%s" from the meeting day', (phrase, expected) => {
+    expect(resolveDeadline(phrase, meeting)).toBe(expected);
+  });
+
+  it.each([
+    ['in three days', '2026-10-18'],
+    ['in 2 weeks', '2026-10-29'],
+    ['within 5 business days', '2026-10-22'],
+    ['in a couple of days', '2026-10-17'],
+    ['in a month', '2026-11-15'],
+  ])('should count "%s" from the meeting day', (phrase, expected) => {
+    expect(resolveDeadline(phrase, meeting)).toBe(expected);
+  });
+
+  it.each([
+    ['end of month', '2026-10-31'],
+    ['next month', '2026-11-30'],
+    ['end of quarter', '2026-12-31'],
+    ['end of next quarter', '2027-03-31'],
+    ['by Q3', '2027-09-30'],
+    ['end of year', '2026-12-31'],
+  ])('should resolve the period "%s" to its last day', (phrase, expected) => {
+    expect(resolveDeadline(phrase, meeting)).toBe(expected);
+  });
+
+  it.each([
+    ['Oct 23', '2026-10-23'],
+    ['the 23rd of October', '2026-10-23'],
+    ['October 23rd, 2027', '2027-10-23'],
+    ['March 3', '2027-03-03'],
+    ['10/23', '2026-10-23'],
+    ['2026-11-02', '2026-11-02'],
+    ['the 1st', '2026-11-01'],
+  ])('should resolve the date "%s", rolling past dates into the next year', (phrase, expected) => {
+    expect(resolveDeadline(phrase, meeting)).toBe(expected);
+  });
+
+  it('should read numeric dates day-first when configured', () => {
+    expect(resolveDeadline('by 3/11', { ...meeting, dateOrder: 'DM' })).toBe('2026-11-03');
+    expect(resolveDeadline('bis 23.10.', { ...meeting, dateOrder: 'DM' })).toBe('2026-10-23');
+    expect(resolveDeadline('by 23.10.2027', { ...meeting, dateOrder: 'DM' })).toBe('2027-10-23');
+  });
+
+  it('should not read decimals and version numbers as dates', () => {
+    expect(resolveDeadline('in 1.5 weeks', meeting)).toBeUndefined();
+    expect(resolveDeadline('ship version 2.1 by Friday', meeting)).toBe('2026-10-16');
+    expect(resolveDeadline('release 2.1.0 on 10/23.', meeting)).toBe('2026-10-23');
+  });
+
+  it('should count from the meeting day in the requester timezone', () => {
+    // 02:00 UTC on the 16th is still the 15th in Seattle
+    const lateMeeting = { date: '2026-10-16T02:00:00Z' };
+
+    expect(resolveDeadline('today', { ...lateMeeting, timeZone: 'America/Los_Angeles' })).toBe('2026-10-15');
+    expect(resolveDeadline('today', { ...lateMeeting, timeZone: 'Europe/Berlin' })).toBe('2026-10-16');
+    expect(resolveDeadline('today', { ...lateMeeting, timeZone: 'Not/AZone' })).toBe('2026-10-16');
+  });
+
+  it('should use real iteration finish dates for sprint deadlines', () => {
+    const iterations = [
+      { name: 'Sprint 42', path: 'Eng\\Sprint 42', startDate: '2026-10-05', finishDate: '2026-10-20' },
+      { name: 'Sprint 43', path: 'Eng\\Sprint 43', startDate: '2026-10-21', finishDate: '2026-11-03' },
+    ];
+
+    expect(resolveDeadline('end of sprint', { ...meeting, iterations })).toBe('2026-10-20');
+    expect(resolveDeadline('by the end of next sprint', { ...meeting, iterations })).toBe('2026-11-03');
+    // Without iterations the sprint is assumed to end on Friday
+    expect(resolveDeadline('end of sprint', meeting)).toBe('2026-10-16');
+  });
+
+  it('should leave vague or impossible deadlines unresolved', () => {
+    expect(resolveDeadline('asap', meeting)).toBeUndefined();
+    expect(resolveDeadline('sometime soon', meeting)).toBeUndefined();
+    expect(resolveDeadline('Feb 30', meeting)).toBeUndefined();
+  });
+});
+
+describe('resolveDeadlines', () => {
+  it('should keep the raw phrase and add the resolved date', () => {
+    const [withDeadline, withoutDeadline] = resolveDeadlines(
+      [
+        { title: 'Fix login', assignedTo: 'Sarah', type: 'Bug', priority: 'High', deadline: 'next Friday' },
+        { title: 'Update docs', assignedTo: 'Mike', type: 'Task', priority: 'Low' },
+      ],
+      meeting
+    );
+
+    expect(withDeadline).toMatchObject({ deadline: 'next Friday', deadlineDate: '2026-10-23' });
+    expect(withoutDeadline.deadlineDate).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for action item deduplication
+ */
+import { deduplicateActionItems, deduplicateMinutes, mergeActionItems } from '../../src/services/deduplication';
+import { LlmProvider } from '../../src/services/llmProvider';
+import { ActionItem } from '../../src/models/actionItem';
+
+function item(title: string, overrides: Partial<ActionItem> = {}): ActionItem {
+  return { title, assignedTo: 'Unassigned', type: 'Task', priority: 'Medium', ...overrides };
+}
+
+describe('deduplicateActionItems', () => {
+  it('should merge rephrased titles', async () => {
+    const result = await deduplicateActionItems(
+      [item('Fix login timeout', { type: 'Bug' }), item('Fix the timeout on login page')],
+      { mode: 'similarity' }
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0].title).toBe('Fix login timeout');
+    expect(result[0].type).toBe('Bug');
+  });
+
+  it('should keep distinct tasks apart', async () => {
+    const result = await deduplicateActionItems(
+      [item('Fix login timeout'), item('Update the API docs'), item('Write release notes')],
+      { mode: 'similarity' }
+    );
+
+    expect(result.map((i) => i.title)).toEqual([
+      'Fix login timeout',
+      'Update the API docs',
+      'Write release notes',
+    ]);
+  });
+
+  it('should combine assignee, deadline and description', async () => {
+    const result = await deduplicateActionItems(
+      [
+        item('Fix login timeout', { assignedTo: 'Sarah Johnson', description: 'Times out after 30s' }),
+        item('Fix the login timeouts', { deadline: 'Friday', description: 'Only during peak hours' }),
+      ],
+      { mode: 'similarity' }
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      assignedTo: 'Sarah Johnson',
+      deadline: 'Friday',
+      description: 'Times out after 30s\n\nOnly during peak hours',
+    });
+  });
+
+  it('should respect the similarity threshold', async () => {
+    const items = [item('Fix login timeout'), item('Fix the timeout on login page')];
+
+    expect(await deduplicateActionItems(items, { mode: 'similarity', similarityThreshold: 0.95 })).toHaveLength(2);
+  });
+
+  it('should group items by embedding similarity', async () => {
+    const vectors: Record<string, number[]> = {
+      'Fix login timeout': [1, 0, 0],
+      'Users cannot sign in at peak hours': [0.95, 0.1, 0],
+      'Write release notes': [0, 0, 1],
+    };
+    const provider: LlmProvider = {
+      name: 'openai',
+      model: 'mock-model',
+      complete: jest.fn(),
+      embed: jest.fn(async (texts: string[]) => texts.map((text) => vectors[text])),
+    };
+
+    const result = await deduplicateActionItems(
+      Object.keys(vectors).map((title) => item(title)),
+      { mode: 'embedding', provider }
+    );
+
+    expect(provider.embed).toHaveBeenCalledTimes(1);
+    expect(result.map((i) => i.title)).toEqual(['Fix login timeout', 'Write release notes']);
+  });
+
+  it('should fall back to title similarity when embeddings fail', async () => {
+    const provider: LlmProvider = {
+      name: 'openai-compatible',
+      model: 'mock-model',
+      complete: jest.fn(),
+      embed: jest.fn().mockRejectedValue(new Error('404 model not found')),
+    };
+
+    const result = await deduplicateActionItems(
+      [item('Fix login timeout'), item('Fix the timeout on login page')],
+      { mode: 'embedding', provider }
+    );
+
+    expect(result).toHaveLength(1);
+  });
+});
+
+describe('mergeActionItems', () => {
+  it('should keep the earlier source and let later mentions update the plan', () => {
+    const source = { speaker: 'Sarah Johnson', quote: "I'll fix it", verified: true };
+
+    const merged = mergeActionItems(
+      item('Fix login timeout', { assignedTo: 'Sarah Johnson', priority: 'Medium', source }),
+      item('Fix login timeout', { priority: 'High', deadline: 'Monday' })
+    );
+
+    expect(merged).toMatchObject({
+      assignedTo: 'Sarah Johnson',
+      priority: 'High',
+      deadline: 'Monday',
+      source,
+    });
+  });
+});
+
+describe('deduplicateMinutes', () => {
+  it('should merge repeated entries across parts and keep the first citation', () => {
+    const source = { speaker: 'Anna Lee', quote: 'we decided to keep Postgres', verified: true };
+
+    const minutes = deduplicateMinutes([
+      { decisions: [{ text: 'Keep Postgres for reporting', source }] },
+      {
+        decisions: [{ text: 'Keep Postgres for the reporting', owner: 'Anna Lee' }],
+        risks: [{ text: 'Migration may slip past the freeze' }],
+      },
+    ]);
+
+    expect(minutes.decisions).toEqual([
+      { text: 'Keep Postgres for reporting', owner: 'Anna Lee', source },
+    ]);
+    expect(minutes.risks).toHaveLength(1);
+    expect(minutes.blockers).toEqual([]);
+    expect(minutes.openQuestions).toEqual([]);
+  });
+});
@@ -0,0 +1,813 @@
+/**
+ * Unit tests for work item creation: the patch document sent to Azure DevOps
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ActionItem } from '../../src/models/actionItem';
+import { config } from '../../src/config';
+
+const createWorkItemMock = jest.fn();
+const queryByWiqlMock = jest.fn();
+const getWorkItemsMock = jest.fn();
+const updateWorkItemMock = jest.fn();
+const addCommentMock = jest.fn();
+const getTeamIterationsMock = jest.fn();
+const getTeamSettingsMock = jest.fn();
+const batchMock = jest.fn();
+const getWorkItemTypesMock = jest.fn();
+const getWorkItemTypeFieldsMock = jest.fn();
+const getProjectMock = jest.fn();
+
+jest.mock('azure-devops-node-api', () => ({
+  getPersonalAccessTokenHandler: jest.fn(),
+  WebApi: jest.fn().mockImplementation(() => ({
+    getWorkItemTrackingApi: async () => ({
+      createWorkItem: createWorkItemMock,
+      queryByWiql: queryByWiqlMock,
+      getWorkItems: getWorkItemsMock,
+      updateWorkItem: updateWorkItemMock,
+      addComment: addCommentMock,
+      getWorkItemTypes: getWorkItemTypesMock,
+      getWorkItemTypeFieldsWithReferences: getWorkItemTypeFieldsMock,
+    }),
+    getCoreApi: async () => ({ getProject: getProjectMock }),
+    getWorkApi: async () => ({
+      getTeamIterations: getTeamIterationsMock,
+      getTeamSettings: getTeamSettingsMock,
+    }),
+    rest: { create: batchMock },
+  })),
+}));
+
+import {
+  applyStatusUpdates,
+  clearIterationCache,
+  clearProcessCache,
+  createWorkItem,
+  createWorkItems,
+  findDuplicates,
+  formatFingerprintTag,
+  formatMeetingTag,
+  formatSeriesTag,
+  getEstimateReferences,
+  getMeetingWorkItems,
+  getOpenSeriesItems,
+  getProcessProfile,
+  getTeamIterations,
+  isCreatedItem,
+  resolveDuplicate,
+} from '../../src/services/devopsService';
+import { clearFieldMappingCache } from '../../src/services/fieldMapping';
+
+interface PatchOperation {
+  path: string;
+  value?: unknown;
+}
+
+async function patchFor(task: ActionItem): Promise<Record<string, unknown>> {
+  createWorkItemMock.mockResolvedValueOnce({ id: 42 });
+  await createWorkItem(task, false);
+
+  const patchDocument = createWorkItemMock.mock.calls[createWorkItemMock.mock.calls.length - 1][1] as PatchOperation[];
+  return Object.fromEntries(patchDocument.map((op) => [op.path.replace('/fields/', ''), op.value]));
+}
+
+function item(overrides: Partial<ActionItem>): ActionItem {
+  return { title: 'Fix the login bug', assignedTo: 'Unassigned', type: 'Task', priority: 'Medium', ...overrides };
+}
+
+describe('createWorkItem', () => {
+  it('should write repro steps, expected vs. actual and severity for bugs', async () => {
+    const fields = await patchFor(
+      item({
+        type: 'Bug',
+        priority: 'High',
+        description: 'Login times out at peak hours',
+        bugDetails: {
+          reproSteps: ['Open the login page', 'Sign in with <valid> credentials'],
+          expectedBehavior: 'Signed in within seconds',
+          actualBehavior: 'Times out after 30 seconds',
+          severity: 'Critical',
+        },
+      })
+    );
+
+    const reproSteps = fields['Microsoft.VSTS.TCM.ReproSteps'] as string;
+    expect(reproSteps).toContain('<p>Login times out at peak hours</p>');
+    expect(reproSteps).toContain('<ol><li>Open the login page</li><li>Sign in with &lt;valid&gt; credentials</li></ol>');
+    expect(reproSteps).toContain('<strong>Expected:</strong> Signed in within seconds');
+    expect(reproSteps).toContain('<strong>Actual:</strong> Times out after 30 seconds');
+    expect(fields['Microsoft.VSTS.Common.Severity']).toBe('1 - Critical');
+  });
+
+  it('should derive bug severity from priority when none was stated', async () => {
+    const fields = await patchFor(item({ type: 'Bug', priority: 'Low' }));
+
+    expect(fields['Microsoft.VSTS.Common.Severity']).toBe('4 - Low');
+    expect(fields).not.toHaveProperty('Microsoft.VSTS.TCM.ReproSteps');
+  });
+
+  it('should write user story text and acceptance criteria', async () => {
+    const fields = await patchFor(
+      item({
+        title: 'Add CSV export to the usage report',
+        type: 'User Story',
+        storyDetails: {
+          role: 'billing admin',
+          goal: 'to export the usage report as CSV',
+          benefit: 'I can reconcile invoices',
+          acceptanceCriteria: ['Includes every column', 'Dates use ISO 8601'],
+        },
+      })
+    );
+
+    expect(fields['System.Description']).toContain(
+      '<strong>As a</strong> billing admin, <strong>I want</strong> to export the usage report as CSV <strong>so that</strong> I can reconcile invoices.'
+    );
+    expect(fields['Microsoft.VSTS.Common.AcceptanceCriteria']).toBe(
+      '<ul><li>Includes every column</li><li>Dates use ISO 8601</li></ul>'
+    );
+    expect(fields).not.toHaveProperty('Microsoft.VSTS.Common.Severity');
+  });
+
+  it('should write story points for stories and remaining work for tasks', async () => {
+    const story = await patchFor(
+      item({ type: 'User Story', estimate: { value: 5, unit: 'storyPoints', rationale: 'New endpoint' } })
+    );
+    const task = await patchFor(item({ type: 'Task', estimate: { value: 3, unit: 'hours' } }));
+
+    expect(story['Microsoft.VSTS.Scheduling.StoryPoints']).toBe(5);
+    expect(story['System.Description']).toContain('5 story points — New endpoint');
+    expect(task['Microsoft.VSTS.Scheduling.RemainingWork']).toBe(3);
+    expect(task).not.toHaveProperty('Microsoft.VSTS.Scheduling.StoryPoints');
+  });
+
+  it('should not set type-specific fields on tasks', async () => {
+    const fields = await patchFor(item({ type: 'Task' }));
+
+    expect(fields).not.toHaveProperty('Microsoft.VSTS.TCM.ReproSteps');
+    expect(fields).not.toHaveProperty('Microsoft.VSTS.Common.Severity');
+    expect(fields).not.toHaveProperty('Microsoft.VSTS.Common.AcceptanceCriteria');
+    expect(fields['System.Title']).toBe('Fix the login bug');
+  });
+
+  it('should write the resolved deadline as the target date', async () => {
+    const fields = await patchFor(item({ deadline: 'next Friday', deadlineDate: '2026-10-23' }));
+
+    expect(fields['Microsoft.VSTS.Scheduling.TargetDate']).toBe('2026-10-23T12:00:00.000Z');
+    expect(fields['System.Description']).toContain('next Friday (2026-10-23)');
+  });
+
+  it('should tag items with their meeting series', async () => {
+    createWorkItemMock.mockResolvedValueOnce({ id: 43 });
+    await createWorkItem(item({}), false, '19:meeting_abc@thread.v2');
+
+    const patchDocument = createWorkItemMock.mock.calls[createWorkItemMock.mock.calls.length - 1][1] as PatchOperation[];
+    const tags = patchDocument.find((op) => op.path === '/fields/System.Tags')?.value as string;
+    expect(tags).toContain(formatSeriesTag('19:meeting_abc@thread.v2'));
+    expect(formatSeriesTag('19:meeting_abc@thread.v2')).toMatch(/^series:[0-9a-f]{12}$/);
+  });
+});
+
+describe('getEstimateReferences', () => {
+  it('should return completed items with story points or completed hours', async () => {
+    queryByWiqlMock.mockResolvedValueOnce({ workItems: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+    getWorkItemsMock.mockResolvedValueOnce([
+      { fields: { 'System.Title': 'Add PDF export', 'System.WorkItemType': 'User Story', 'Microsoft.VSTS.Scheduling.StoryPoints': 5 } },
+      { fields: { 'System.Title': 'Renew certs', 'System.WorkItemType': 'Task', 'Microsoft.VSTS.Scheduling.CompletedWork': 2.5 } },
+      { fields: { 'System.Title': 'Unsized', 'System.WorkItemType': 'Task' } },
+    ]);
+
+    const references = await getEstimateReferences(3);
+
+    expect(queryByWiqlMock.mock.calls[0][3]).toBe(3);
+    expect(references).toEqual([
+      { title: 'Add PDF export', type: 'User Story', value: 5, unit: 'storyPoints' },
+      { title: 'Renew certs', type: 'Task', value: 2.5, unit: 'hours' },
+    ]);
+  });
+
+  it('should skip the query when calibration is off and survive query failures', async () => {
+    queryByWiqlMock.mockClear();
+    expect(await getEstimateReferences(0)).toEqual([]);
+    expect(queryByWiqlMock).not.toHaveBeenCalled();
+
+    queryByWiqlMock.mockRejectedValueOnce(new Error('TF51005: invalid field'));
+    expect(await getEstimateReferences(10)).toEqual([]);
+  });
+});
+
+describe('iteration assignment', () => {
+  // Days from today as an ISO date
+  const day = (offset: number) => new Date(Date.now() + offset * 86400000).toISOString().slice(0, 10);
+
+  beforeEach(() => {
+    clearIterationCache();
+    getTeamIterationsMock.mockResolvedValue([
+      { name: 'Sprint 41', path: 'Engineering\\Sprint 41', attributes: { startDate: new Date(`${day(-20)}T00:00:00Z`), finishDate: new Date(`${day(-7)}T00:00:00Z`) } },
+      { name: 'Sprint 42', path: 'Engineering\\Sprint 42', attributes: { startDate: new Date(`${day(-6)}T00:00:00Z`), finishDate: new Date(`${day(7)}T00:00:00Z`) } },
+      { name: 'Sprint 43', path: 'Engineering\\Sprint 43', attributes: { startDate: new Date(`${day(8)}T00:00:00Z`), finishDate: new Date(`${day(21)}T00:00:00Z`) } },
+      { name: 'Unplanned', path: 'Engineering\\Unplanned' },
+    ]);
+    getTeamSettingsMock.mockResolvedValue({ backlogIteration: { path: 'Engineering' } });
+  });
+
+  it('should put items without a deadline in the current iteration', async () => {
+    const fields = await patchFor(item({}));
+
+    expect(fields['System.IterationPath']).toBe('Engineering\\Sprint 42');
+    expect(fields).not.toHaveProperty('Microsoft.VSTS.Scheduling.TargetDate');
+  });
+
+  it('should use the real finish date of the sprint for sprint deadlines', async () => {
+    const thisSprint = await patchFor(item({ deadline: 'end of sprint' }));
+    const nextSprint = await patchFor(item({ deadline: 'by the end of next sprint' }));
+
+    expect(thisSprint['System.IterationPath']).toBe('Engineering\\Sprint 42');
+    expect(thisSprint['Microsoft.VSTS.Scheduling.TargetDate']).toBe(`${day(7)}T12:00:00.000Z`);
+    expect(nextSprint['System.IterationPath']).toBe('Engineering\\Sprint 43');
+    expect(nextSprint['Microsoft.VSTS.Scheduling.TargetDate']).toBe(`${day(21)}T12:00:00.000Z`);
+  });
+
+  it('should put items in the iteration their deadline falls in, or the backlog after the last one', async () => {
+    const later = await patchFor(item({ deadline: 'in two weeks', deadlineDate: day(14) }));
+    const past = await patchFor(item({ deadline: 'last week', deadlineDate: day(-10) }));
+    const beyond = await patchFor(item({ deadline: 'next quarter', deadlineDate: day(60) }));
+
+    expect(later['System.IterationPath']).toBe('Engineering\\Sprint 43');
+    expect(past['System.IterationPath']).toBe('Engineering\\Sprint 42');
+    expect(beyond['System.IterationPath']).toBe('Engineering');
+    expect(beyond['Microsoft.VSTS.Scheduling.TargetDate']).toBe(`${day(60)}T12:00:00.000Z`);
+  });
+
+  it('should read iterations once and fall back to the static path when they cannot be read', async () => {
+    getTeamIterationsMock.mockClear();
+    await patchFor(item({}));
+    await patchFor(item({}));
+    expect(getTeamIterationsMock).toHaveBeenCalledTimes(1);
+
+    clearIterationCache();
+    getTeamIterationsMock.mockRejectedValueOnce(new Error('TF400499: team not found'));
+    const fields = await patchFor(item({}));
+    expect(fields).not.toHaveProperty('System.IterationPath');
+  });
+
+  it('should read iterations again after a failed read', async () => {
+    getTeamIterationsMock.mockRejectedValueOnce(new Error('ECONNRESET'));
+    expect(await getTeamIterations()).toEqual({ iterations: [] });
+
+    expect((await getTeamIterations()).iterations.map((iteration) => iteration.name)).toEqual([
+      'Sprint 41',
+      'Sprint 42',
+      'Sprint 43',
+    ]);
+  });
+});
+
+describe('getOpenSeriesItems', () => {
+  it('should query open ActionAgent items tagged with the series', async () => {
+    queryByWiqlMock.mockResolvedValueOnce({ workItems: [{ id: 7 }] });
+    getWorkItemsMock.mockResolvedValueOnce([
+      {
+        id: 7,
+        fields: {
+          'System.Title': 'Fix the login timeout',
+          'System.WorkItemType': 'Bug',
+          'System.State': 'Active',
+          'System.AssignedTo': { displayName: 'Sarah Chen' },
+        },
+      },
+    ]);
+
+    const items = await getOpenSeriesItems('series-1', 'meeting-2');
+
+    const query = queryByWiqlMock.mock.calls[queryByWiqlMock.mock.calls.length - 1][0].query as string;
+    expect(query).toContain(`CONTAINS '${formatSeriesTag('series-1')}'`);
+    expect(query).toContain(`AND NOT [System.Tags] CONTAINS '${formatMeetingTag('meeting-2')}'`);
+    expect(query).toContain('NOT IN');
+    expect(items).toEqual([
+      { id: 7, title: 'Fix the login timeout', type: 'Bug', state: 'Active', assignedTo: 'Sarah Chen' },
+    ]);
+  });
+
+  it('should return no items when the query fails', async () => {
+    queryByWiqlMock.mockRejectedValueOnce(new Error('TF51005: invalid field'));
+    expect(await getOpenSeriesItems('series-1')).toEqual([]);
+  });
+
+  it('should not query for meetings outside a series', async () => {
+    queryByWiqlMock.mockClear();
+    expect(await getOpenSeriesItems('')).toEqual([]);
+    expect(queryByWiqlMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('applyStatusUpdates', () => {
+  it('should close done items, activate started ones and only comment on blocked ones', async () => {
+    updateWorkItemMock.mockResolvedValue({});
+    addCommentMock.mockResolvedValue({});
+
+    const results = await applyStatusUpdates(
+      [
+        { workItemId: 1, status: 'done', comment: 'Sarah merged the fix' },
+        { workItemId: 2, status: 'inProgress' },
+        { workItemId: 3, status: 'blocked', source: { speaker: 'Mike', quote: 'still blocked on the API' } },
+      ],
+      'Daily Standup'
+    );
+
+    expect(results.map((result) => [result.workItemId, result.newState, result.success])).toEqual([
+      [1, 'Closed', true],
+      [2, 'Active', true],
+      [3, undefined, true],
+    ]);
+    expect(updateWorkItemMock).toHaveBeenCalledTimes(2);
+    expect(updateWorkItemMock.mock.calls[0][1]).toEqual([
+      { op: 'add', path: '/fields/System.State', value: 'Closed' },
+    ]);
+    expect(addCommentMock).toHaveBeenCalledTimes(3);
+    expect(addCommentMock.mock.calls[0][0].text).toContain('Sarah merged the fix');
+    expect(addCommentMock.mock.calls[2][0].text).toContain('still blocked on the API');
+  });
+
+  it('should report failed updates without stopping the others', async () => {
+    updateWorkItemMock.mockReset();
+    addCommentMock.mockReset();
+    updateWorkItemMock.mockRejectedValueOnce(new Error('TF401320: rule error')).mockResolvedValue({});
+    addCommentMock.mockResolvedValue({});
+
+    const results = await applyStatusUpdates(
+      [
+        { workItemId: 1, status: 'done' },
+        { workItemId: 2, status: 'done' },
+      ],
+      'Daily Standup'
+    );
+
+    expect(results[0]).toMatchObject({ workItemId: 1, success: false });
+    expect(results[0].error).toContain('TF401320');
+    expect(results[1]).toMatchObject({ workItemId: 2, success: true, newState: 'Closed' });
+  });
+});
+
+describe('findDuplicates', () => {
+  it('should match open work items by title and favor the same meeting series', async () => {
+    queryByWiqlMock.mockResolvedValueOnce({ workItems: [{ id: 5 }, { id: 6 }, { id: 7 }] });
+    getWorkItemsMock.mockResolvedValueOnce([
+      { id: 5, fields: { 'System.Title': 'Login timeout', 'System.WorkItemType': 'Bug', 'System.State': 'New' } },
+      {
+        id: 6,
+        fields: {
+          'System.Title': 'Fix login timeout on SSO',
+          'System.WorkItemType': 'Task',
+          'System.State': 'Active',
+          'System.Tags': `ActionAgent; ${formatSeriesTag('series-1')}`,
+        },
+      },
+      { id: 7, fields: { 'System.Title': 'Rotate the login certificates', 'System.WorkItemType': 'Task', 'System.State': 'Active' } },
+    ]);
+
+    const matches = await findDuplicates(
+      [item({ title: 'Fix the login timeout' }), item({ title: 'Write release notes' })],
+      'series-1'
+    );
+
+    const query = queryByWiqlMock.mock.calls[queryByWiqlMock.mock.calls.length - 1][0].query as string;
+    expect(query).toContain("[System.Title] CONTAINS 'login'");
+    expect(query).toContain("[System.Title] CONTAINS 'release'");
+    expect(query).toContain('NOT IN');
+    expect(matches).toHaveLength(1);
+    expect(matches[0].task.title).toBe('Fix the login timeout');
+    expect(matches[0].candidates.map((candidate) => candidate.id)).toEqual([6, 5]);
+    expect(matches[0].candidates[0]).toMatchObject({
+      state: 'Active',
+      url: 'https://dev.azure.com/test-org/TestProject/_workitems/edit/6',
+    });
+  });
+
+  it('should find nothing when the search fails', async () => {
+    queryByWiqlMock.mockRejectedValueOnce(new Error('TF51005: invalid field'));
+    expect(await findDuplicates([item({})])).toEqual([]);
+  });
+});
+
+describe('resolveDuplicate', () => {
+  const duplicate = { id: 42, title: 'Login times out', type: 'Bug', state: 'Active', url: '', similarity: 0.8 };
+
+  beforeEach(() => {
+    createWorkItemMock.mockReset();
+    updateWorkItemMock.mockReset();
+    addCommentMock.mockReset();
+  });
+
+  it('should create the item and link it to the duplicate as related', async () => {
+    createWorkItemMock.mockResolvedValueOnce({ id: 57 });
+    updateWorkItemMock.mockResolvedValueOnce({});
+
+    const workItem = await resolveDuplicate({ task: item({}), candidates: [duplicate] }, 'link', 'Standup');
+
+    expect(workItem).toMatchObject({ id: 57, relatedWorkItemId: 42 });
+    expect(updateWorkItemMock.mock.calls[0][2]).toBe(57);
+    expect(updateWorkItemMock.mock.calls[0][1][0]).toMatchObject({
+      path: '/relations/-',
+      value: { rel: 'System.LinkTypes.Related', url: expect.stringMatching(/\/_apis\/wit\/workItems\/42$/) },
+    });
+  });
+
+  it('should comment on the duplicate instead of creating an item', async () => {
+    addCommentMock.mockResolvedValueOnce({});
+
+    const workItem = await resolveDuplicate(
+      { task: item({ source: { speaker: 'Sarah', quote: 'the login bug is back' } }), candidates: [duplicate] },
+      'comment',
+      'Standup'
+    );
+
+    expect(workItem).toBeUndefined();
+    expect(createWorkItemMock).not.toHaveBeenCalled();
+    expect(addCommentMock.mock.calls[0][2]).toBe(42);
+    expect(addCommentMock.mock.calls[0][0].text).toContain('raised again in "Standup"');
+    expect(addCommentMock.mock.calls[0][0].text).toContain('the login bug is back');
+  });
+});
+
+describe('meeting and fingerprint tags', () => {
+  it('should tag items with their meeting and a fingerprint of the item', async () => {
+    createWorkItemMock.mockResolvedValueOnce({ id: 44 });
+    await createWorkItem(item({}), false, 'series-1', 'meeting-1');
+
+    const patchDocument = createWorkItemMock.mock.calls[createWorkItemMock.mock.calls.length - 1][1] as PatchOperation[];
+    const tags = (patchDocument.find((op) => op.path === '/fields/System.Tags')?.value as string).split('; ');
+    expect(tags).toContain(formatMeetingTag('meeting-1'));
+    expect(tags).toContain(formatFingerprintTag(item({})));
+    expect(formatMeetingTag('meeting-1')).toMatch(/^meeting:[0-9a-f]{12}$/);
+  });
+
+  it('should fingerprint items by type and title words only', () => {
+    const fingerprint = formatFingerprintTag(item({ title: 'Fix the login bug' }));
+
+    expect(formatFingerprintTag(item({ title: 'fix LOGIN bugs!', assignedTo: 'Sarah', priority: 'High' }))).toBe(fingerprint);
+    expect(formatFingerprintTag(item({ title: 'Fix the login bug', type: 'Bug' }))).not.toBe(fingerprint);
+    expect(formatFingerprintTag(item({ title: 'Fix the signup bug' }))).not.toBe(fingerprint);
+  });
+});
+
+describe('getMeetingWorkItems', () => {
+  it('should return items from earlier runs with their fingerprints', async () => {
+    queryByWiqlMock.mockResolvedValueOnce({ workItems: [{ id: 8 }] });
+    getWorkItemsMock.mockResolvedValueOnce([
+      {
+        id: 8,
+        fields: {
+          'System.Title': 'Fix the login bug',
+          'System.WorkItemType': 'Task',
+          'System.State': 'Closed',
+          'System.Tags': `ActionAgent; ${formatMeetingTag('meeting-1')}; ${formatFingerprintTag(item({}))}`,
+        },
+      },
+    ]);
+
+    const items = await getMeetingWorkItems('meeting-1');
+
+    const query = queryByWiqlMock.mock.calls[queryByWiqlMock.mock.calls.length - 1][0].query as string;
+    expect(query).toContain(`CONTAINS '${formatMeetingTag('meeting-1')}'`);
+    expect(query).not.toContain('NOT IN');
+    expect(items).toEqual([
+      {
+        id: 8,
+        title: 'Fix the login bug',
+        type: 'Task',
+        state: 'Closed',
+        url: 'https://dev.azure.com/test-org/TestProject/_workitems/edit/8',
+        fingerprint: formatFingerprintTag(item({})),
+      },
+    ]);
+  });
+
+  it('should fail when the query fails instead of reporting no earlier runs', async () => {
+    queryByWiqlMock.mockRejectedValueOnce(new Error('TF51005: invalid field'));
+    await expect(getMeetingWorkItems('meeting-1')).rejects.toThrow('TF51005: invalid field');
+  });
+});
+
+describe('isCreatedItem', () => {
+  const created = [
+    {
+      id: 8,
+      title: 'Fix the login bug on Safari',
+      type: 'Task',
+      state: 'Active',
+      url: 'https://dev.azure.com/test-org/TestProject/_workitems/edit/8',
+      fingerprint: formatFingerprintTag(item({ title: 'Update the release notes' })),
+    },
+  ];
+
+  it('should match items by fingerprint or by a similar title', () => {
+    expect(isCreatedItem(item({ title: 'Update release notes' }), created)).toBe(true);
+    expect(isCreatedItem(item({ title: 'Fix the Safari login bug' }), created)).toBe(true);
+    expect(isCreatedItem(item({ title: 'Write the migration guide' }), created)).toBe(false);
+  });
+});
+
+describe('createWorkItems', () => {
+  beforeEach(() => {
+    batchMock.mockReset();
+    createWorkItemMock.mockReset();
+  });
+
+  it('should create items in one batch and report each failure with its error', async () => {
+    batchMock.mockResolvedValueOnce({
+      statusCode: 200,
+      result: {
+        value: [
+          { code: 200, body: JSON.stringify({ id: 100, _links: { html: { href: 'https://ado/100' } } }) },
+          { code: 400, body: JSON.stringify({ message: 'TF401320: Rule Error for field Area Path' }) },
+        ],
+      },
+    });
+
+    const result = await createWorkItems(
+      [item({ title: 'Fix the login bug' }), item({ title: 'Add CSV export', type: 'User Story' })],
+      false
+    );
+
+    expect(batchMock).toHaveBeenCalledTimes(1);
+    const [url, requests] = batchMock.mock.calls[0];
+    expect(url).toBe('https://dev.azure.com/test-org/_apis/wit/$batch?api-version=4.1');
+    expect(requests.map((request: { uri: string }) => request.uri)).toEqual([
+      '/TestProject/_apis/wit/workitems/$Task?api-version=4.1',
+      '/TestProject/_apis/wit/workitems/$User%20Story?api-version=4.1',
+    ]);
+    expect(requests[0].body).toContainEqual(expect.objectContaining({ path: '/fields/System.Title', value: 'Fix the login bug' }));
+    expect(result.created).toEqual([expect.objectContaining({ id: 100, url: 'https://ado/100', title: 'Fix the login bug' })]);
+    expect(result.failed).toEqual([
+      { task: expect.objectContaining({ title: 'Add CSV export' }), error: 'TF401320: Rule Error for field Area Path' },
+    ]);
+    expect(createWorkItemMock).not.toHaveBeenCalled();
+  });
+
+  it('should create items one by one when the batch endpoint is not available', async () => {
+    batchMock.mockResolvedValueOnce({ statusCode: 404, result: null });
+    createWorkItemMock.mockResolvedValueOnce({ id: 101 }).mockRejectedValue(new Error('TF401320: Rule Error'));
+
+    const result = await createWorkItems([item({ title: 'First' }), item({ title: 'Second' })], false);
+
+    expect(result.created.map((workItem) => workItem.id)).toEqual([101]);
+    expect(result.failed).toEqual([{ task: expect.objectContaining({ title: 'Second' }), error: expect.stringContaining('TF401320') }]);
+  });
+
+  it('should report every item of a failed batch without resending it', async () => {
+    batchMock.mockRejectedValueOnce(Object.assign(new Error('Service Unavailable'), { statusCode: 503 }));
+
+    const result = await createWorkItems([item({ title: 'First' }), item({ title: 'Second' })], false);
+
+    expect(result.created).toEqual([]);
+    expect(result.failed.map((failure) => failure.error)).toEqual(['Service Unavailable', 'Service Unavailable']);
+    expect(createWorkItemMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('process template discovery', () => {
+  const COMMON_FIELDS = ['System.Title', 'System.Description', 'System.Tags', 'System.AssignedTo', 'Microsoft.VSTS.Common.Priority'];
+  const fields = (...names: string[]) => [...COMMON_FIELDS, ...names].map((referenceName) => ({ referenceName }));
+
+  function useProject(process: string, types: Record<string, Array<{ referenceName: string; alwaysRequired?: boolean }>>) {
+    getWorkItemTypesMock.mockResolvedValue(Object.keys(types).map((name) => ({ name })));
+    getWorkItemTypeFieldsMock.mockImplementation(async (_project: string, name: string) => types[name]);
+    getProjectMock.mockResolvedValue({ capabilities: { processTemplate: { templateName: process } } });
+  }
+
+  beforeEach(() => {
+    clearProcessCache();
+    createWorkItemMock.mockReset();
+    batchMock.mockReset();
+  });
+
+  it('should create Product Backlog Items with effort for user stories in Scrum projects', async () => {
+    useProject('Scrum', {
+      Task: fields('Microsoft.VSTS.Scheduling.RemainingWork'),
+      Bug: fields('Microsoft.VSTS.TCM.ReproSteps', 'Microsoft.VSTS.Common.Severity'),
+      'Product Backlog Item': fields('Microsoft.VSTS.Scheduling.Effort', 'Microsoft.VSTS.Common.AcceptanceCriteria'),
+      Epic: fields(),
+    });
+
+    expect(await getProcessProfile()).toMatchObject({
+      processName: 'Scrum',
+      typeMap: { Task: 'Task', Bug: 'Bug', 'User Story': 'Product Backlog Item' },
+    });
+
+    const story = await patchFor(item({ type: 'User Story', estimate: { value: 5, unit: 'storyPoints' } }));
+    expect(createWorkItemMock.mock.calls[0][3]).toBe('Product Backlog Item');
+    expect(story['Microsoft.VSTS.Scheduling.Effort']).toBe(5);
+    expect(story).not.toHaveProperty('Microsoft.VSTS.Scheduling.StoryPoints');
+  });
+
+  it('should calibrate estimates with the effort of Scrum items', async () => {
+    useProject('Scrum', {
+      Task: fields('Microsoft.VSTS.Scheduling.RemainingWork'),
+      Bug: fields('Microsoft.VSTS.Scheduling.Effort'),
+      'Product Backlog Item': fields('Microsoft.VSTS.Scheduling.Effort'),
+    });
+    queryByWiqlMock.mockResolvedValueOnce({ workItems: [{ id: 1 }] });
+    getWorkItemsMock.mockResolvedValueOnce([
+      { fields: { 'System.Title': 'Add PDF export', 'System.WorkItemType': 'Product Backlog Item', 'Microsoft.VSTS.Scheduling.Effort': 8 } },
+    ]);
+
+    const references = await getEstimateReferences(5);
+
+    const query = queryByWiqlMock.mock.calls[queryByWiqlMock.mock.calls.length - 1][0].query as string;
+    expect(query).toContain('AND ([Microsoft.VSTS.Scheduling.Effort] > 0)');
+    expect(query).not.toContain('StoryPoints');
+    expect(query).not.toContain('CompletedWork');
+    expect(references).toEqual([{ title: 'Add PDF export', type: 'Product Backlog Item', value: 8, unit: 'storyPoints' }]);
+  });
+
+  it('should create Issues in Basic projects and keep repro steps in the description', async () => {
+    useProject('Basic', { Task: fields(), Issue: fields('Microsoft.VSTS.Scheduling.Effort'), Epic: fields() });
+
+    const bug = await patchFor(
+      item({ type: 'Bug', bugDetails: { reproSteps: ['Open the login page'], severity: 'High' } })
+    );
+
+    expect(createWorkItemMock.mock.calls[0][3]).toBe('Issue');
+    expect(bug['System.Description']).toContain('<strong>Steps to reproduce:</strong></div><ol><li>Open the login page</li></ol>');
+    expect(bug).not.toHaveProperty('Microsoft.VSTS.TCM.ReproSteps');
+    expect(bug).not.toHaveProperty('Microsoft.VSTS.Common.Severity');
+  });
+
+  it('should let AZURE_DEVOPS_TYPE_MAP override the detected mapping', async () => {
+    useProject('Agile', { Task: fields(), Bug: fields(), 'User Story': fields(), Feature: fields() });
+    Object.assign(config.azureDevOps.typeMap, { 'User Story': 'Feature' });
+
+    try {
+      expect((await getProcessProfile()).typeMap['User Story']).toBe('Feature');
+    } finally {
+      delete config.azureDevOps.typeMap['User Story'];
+    }
+  });
+
+  it('should fail items missing required fields before sending them', async () => {
+    useProject('Agile', {
+      Task: [...fields(), { referenceName: 'Custom.Component', alwaysRequired: true }, { referenceName: 'System.State', alwaysRequired: true }],
+      Bug: fields(),
+      'User Story': fields(),
+    });
+    batchMock.mockResolvedValueOnce({ statusCode: 200, result: { value: [{ code: 200, body: JSON.stringify({ id: 300 }) }] } });
+
+    const result = await createWorkItems([item({ title: 'Needs a component' }), item({ title: 'Story', type: 'User Story' })], false);
+
+    expect(result.failed).toEqual([
+      { task: expect.objectContaining({ title: 'Needs a component' }), error: 'Task requires Custom.Component, which ActionAgent does not set' },
+    ]);
+    expect(batchMock.mock.calls[0][1]).toHaveLength(1);
+    expect(result.created.map((workItem) => workItem.id)).toEqual([300]);
+  });
+
+  it('should fall back to the default mapping when the types cannot be read', async () => {
+    getWorkItemTypesMock.mockRejectedValue(new Error('TF400813: not authorized'));
+
+    expect(await getProcessProfile()).toEqual({
+      typeMap: { Task: 'Task', Bug: 'Bug', 'User Story': 'User Story' },
+      types: {},
+      states: {},
+    });
+  });
+
+  it('should read the types again after a failed read', async () => {
+    useProject('Scrum', { Task: fields(), Bug: fields(), 'Product Backlog Item': fields() });
+    getWorkItemTypesMock.mockRejectedValueOnce(new Error('ECONNRESET'));
+
+    expect((await getProcessProfile()).typeMap['User Story']).toBe('User Story');
+    expect(await getProcessProfile()).toMatchObject({
+      processName: 'Scrum',
+      typeMap: { 'User Story': 'Product Backlog Item' },
+    });
+  });
+
+  it('should move items to the states of their type in Scrum projects', async () => {
+    const scrumStates = (inProgress: string) => [
+      { name: 'New', category: 'Proposed' },
+      { name: inProgress, category: 'InProgress' },
+      { name: 'Done', category: 'Completed' },
+      { name: 'Removed', category: 'Removed' },
+    ];
+    useProject('Scrum', { Task: fields(), Bug: fields(), 'Product Backlog Item': fields() });
+    getWorkItemTypesMock.mockResolvedValue([
+      { name: 'Task', states: scrumStates('In Progress') },
+      { name: 'Bug', states: scrumStates('Committed') },
+      { name: 'Product Backlog Item', states: scrumStates('Committed') },
+    ]);
+    updateWorkItemMock.mockReset().mockResolvedValue({});
+    addCommentMock.mockReset().mockResolvedValue({});
+
+    const results = await applyStatusUpdates(
+      [
+        { workItemId: 1, type: 'Product Backlog Item', status: 'done' },
+        { workItemId: 2, type: 'Task', status: 'inProgress' },
+        { workItemId: 3, type: 'Bug', status: 'inProgress' },
+      ],
+      'Sprint Review'
+    );
+
+    expect(results.map((result) => result.newState)).toEqual(['Done', 'In Progress', 'Committed']);
+  });
+
+  it('should prefer AZURE_DEVOPS_DONE_STATE over the process states', async () => {
+    getWorkItemTypesMock.mockResolvedValue([{ name: 'Task', states: [{ name: 'Done', category: 'Completed' }] }]);
+    updateWorkItemMock.mockReset().mockResolvedValue({});
+    addCommentMock.mockReset().mockResolvedValue({});
+    Object.assign(config.azureDevOps, { doneState: 'Closed' });
+
+    try {
+      const [result] = await applyStatusUpdates([{ workItemId: 1, type: 'Task', status: 'done' }], 'Sprint Review');
+      expect(result.newState).toBe('Closed');
+    } finally {
+      Object.assign(config.azureDevOps, { doneState: '' });
+    }
+  });
+});
+
+describe('field mapping', () => {
+  const mappingFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'field-mapping-')), 'mapping.json');
+
+  beforeAll(() => {
+    fs.writeFileSync(
+      mappingFile,
+      JSON.stringify({
+        TestProject: {
+          '*': { fields: { 'Custom.CostCenter': 'CC-1042' }, tags: ['team:payments'] },
+          Task: {
+            fields: {
+              'Custom.Component': { template: '{{meeting.subject}}', transform: 'slug', required: true },
+              'Microsoft.VSTS.Common.Priority': { template: '{{item.priority}}', map: { High: 1, Medium: 3, Low: 4 } },
+            },
+          },
+        },
+      })
+    );
+    Object.assign(config.azureDevOps, { fieldMappingFile: mappingFile });
+  });
+
+  afterAll(() => {
+    Object.assign(config.azureDevOps, { fieldMappingFile: '' });
+    clearFieldMappingCache();
+  });
+
+  beforeEach(() => {
+    clearProcessCache();
+    getWorkItemTypesMock.mockResolvedValue([{ name: 'Task' }, { name: 'Bug' }, { name: 'User Story' }]);
+    getWorkItemTypeFieldsMock.mockResolvedValue(
+      ['System.Title', 'System.Description', 'System.Tags', 'Microsoft.VSTS.Common.Priority', 'Custom.CostCenter']
+        .map((referenceName) => ({ referenceName }))
+        .concat({ referenceName: 'Custom.Component', alwaysRequired: true } as { referenceName: string })
+    );
+    createWorkItemMock.mockReset();
+    batchMock.mockReset();
+  });
+
+  it('should set mapped fields, replace ActionAgent values and add tags', async () => {
+    createWorkItemMock.mockResolvedValueOnce({ id: 42 });
+    await createWorkItem(item({}), false, undefined, undefined, 'Payments Standup');
+
+    const patchDocument = createWorkItemMock.mock.calls[0][1] as PatchOperation[];
+    const fields = Object.fromEntries(patchDocument.map((op) => [op.path.replace('/fields/', ''), op.value]));
+    expect(fields).toMatchObject({
+      'Custom.CostCenter': 'CC-1042',
+      'Custom.Component': 'payments-standup',
+      'Microsoft.VSTS.Common.Priority': 3,
+      'System.Tags': 'ActionAgent; AI-Generated; team:payments',
+    });
+    expect(patchDocument.filter((op) => op.path === '/fields/Microsoft.VSTS.Common.Priority')).toHaveLength(1);
+  });
+
+  it('should fail items whose mapped values are missing before sending them', async () => {
+    const result = await createWorkItems([item({})], false);
+
+    expect(result.failed).toEqual([
+      {
+        task: expect.objectContaining({ title: 'Fix the login bug' }),
+        error: 'Field mapping for Task: Custom.Component is required by the field mapping but has no value',
+      },
+    ]);
+    expect(batchMock).not.toHaveBeenCalled();
+  });
+
+  it('should fail items with mapped fields the work item type does not have', async () => {
+    getWorkItemTypeFieldsMock.mockResolvedValue(
+      ['System.Title', 'System.Description', 'System.Tags', 'Microsoft.VSTS.Common.Priority', 'Custom.Component'].map(
+        (referenceName) => ({ referenceName })
+      )
+    );
+
+    const result = await createWorkItems([item({})], false, undefined, undefined, 'Payments Standup');
+
+    expect(result.failed).toEqual([
+      {
+        task: expect.objectContaining({ title: 'Fix the login bug' }),
+        error: 'Field mapping for Task: Custom.CostCenter is not a field of Task',
+      },
+    ]);
+    expect(batchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for the extraction evaluation harness
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  EvaluationCase,
+  formatEvaluationTable,
+  loadEvaluationCases,
+  matchActionItems,
+  RecordedLlmProvider,
+  runEvaluation,
+  scoreCase,
+} from '../../src/services/evaluation';
+import { setLlmProvider } from '../../src/services/aiService';
+import { ChatCompletionRequest, LlmProvider } from '../../src/services/llmProvider';
+import { ActionItem } from '../../src/models/actionItem';
+
+function item(title: string, assignedTo: string, priority: ActionItem['priority'] = 'Medium'): ActionItem {
+  return { title, assignedTo, type: 'Task', priority };
+}
+
+const evaluationCase: EvaluationCase = {
+  name: 'login',
+  transcript: {
+    utterances: [
+      { speaker: 'Sarah Johnson', start: 0, end: 5, text: "I'll fix the login bug today." },
+      { speaker: 'Mike Chen', start: 5, end: 9, text: "I'll update the API docs." },
+    ],
+  },
+  expected: [
+    { title: 'Fix the login bug', assignedTo: 'Sarah Johnson', priority: 'High' },
+    { title: 'Update the API documentation', assignedTo: 'Mike Chen' },
+  ],
+};
+
+function mockProvider(content: string, model = 'mock-model'): LlmProvider & { calls: number } {
+  const provider = {
+    name: 'openai-compatible' as const,
+    model,
+    calls: 0,
+    complete: jest.fn(async () => {
+      provider.calls++;
+      return { content, model, usage: { promptTokens: 10, completionTokens: 5 } };
+    }),
+  };
+  return provider;
+}
+
+describe('matchActionItems', () => {
+  it('should pair each expected item with its most similar extracted item at most once', () => {
+    const pairs = matchActionItems(
+      [{ title: 'Fix the login bug' }, { title: 'Fix the login page styling' }],
+      [item('Fix login bug', 'Sarah'), item('Write release notes', 'Mike')]
+    );
+
+    expect(pairs).toEqual([[0, 0]]);
+  });
+});
+
+describe('scoreCase', () => {
+  it('should report precision, recall and accuracy over matched items', () => {
+    const result = scoreCase('login', evaluationCase.expected, {
+      actionItems: [
+        item('Fix login bug', 'Sarah', 'High'),
+        item('Update API documentation', 'Sarah Johnson'),
+        item('Order team lunch', 'Mike Chen'),
+      ],
+      promptVersion: 'default@1.0.0',
+    });
+
+    expect(result).toMatchObject({
+      expected: 2,
+      extracted: 3,
+      matched: 2,
+      precision: 2 / 3,
+      recall: 1,
+      f1: 0.8,
+      assigneeAccuracy: 0.5,
+      priorityAccuracy: 1,
+      missed: [],
+      unexpected: ['Order team lunch'],
+      promptVersion: 'default@1.0.0',
+    });
+  });
+
+  it('should leave scores empty when there is nothing to measure', () => {
+    const result = scoreCase('empty', [], { actionItems: [] });
+
+    expect(result).toMatchObject({ precision: null, recall: null, f1: null, assigneeAccuracy: null });
+  });
+});
+
+describe('runEvaluation', () => {
+  const reply = JSON.stringify({
+    actionItems: [
+      { title: 'Fix the login bug', assignedTo: 'Sarah Johnson', type: 'Bug', priority: 'High' },
+      { title: 'Update the API docs', assignedTo: 'Mike Chen', type: 'Task', priority: 'Low' },
+    ],
+  });
+
+  it('should score every case and total the results', async () => {
+    setLlmProvider(mockProvider(reply));
+
+    const report = await runEvaluation([evaluationCase, { ...evaluationCase, name: 'again' }]);
+
+    expect(report.promptVersions).toEqual(['default@1.0.0']);
+    expect(report.model).toBe('mock-model');
+    expect(report.cases.map((result) => result.recall)).toEqual([1, 1]);
+    expect(report.totals).toMatchObject({ expected: 4, matched: 4, priorityAccuracy: 0.5 });
+  });
+
+  it('should report a failing case without stopping the run', async () => {
+    setLlmProvider(mockProvider(reply));
+
+    const report = await runEvaluation([{ ...evaluationCase, templateName: 'no-such-template' }, evaluationCase]);
+
+    expect(report.cases[0].error).toContain('Prompt template not found');
+    expect(report.cases[0].missed).toHaveLength(2);
+    expect(report.cases[1].error).toBeUndefined();
+  });
+
+  it('should show the change against a baseline', async () => {
+    setLlmProvider(mockProvider(reply));
+    const current = await runEvaluation([evaluationCase]);
+    const baseline = { ...current, totals: { ...current.totals, recall: 0.75 } };
+
+    const table = formatEvaluationTable(current, baseline);
+
+    expect(table).toContain('Precision');
+    expect(table).toMatch(/TOTAL\s+default@1\.0\.0\s+2\/2 \(2\)\s+1\.00/);
+    expect(table).toMatch(/Δ vs baseline\s+default@1\.0\.0\s+\+0\s+\+0\.00\s+\+0\.25/);
+  });
+});
+
+describe('RecordedLlmProvider', () => {
+  const request: ChatCompletionRequest = { messages: [{ role: 'user', content: 'Hello' }], jsonMode: true };
+
+  it('should replay what was recorded and refuse unrecorded requests', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+    // Replays use the configured model (AZURE_OPENAI_DEPLOYMENT in tests/setup.ts)
+    const live = mockProvider('{"actionItems": []}', 'gpt-4o');
+
+    const recorded = await new RecordedLlmProvider(dir, live).complete(request);
+    const replayed = await new RecordedLlmProvider(dir).complete(request);
+
+    expect(replayed).toEqual(recorded);
+    expect(live.calls).toBe(1);
+    await expect(
+      new RecordedLlmProvider(dir).complete({ ...request, temperature: 0.9 })
+    ).rejects.toThrow('No recorded response');
+  });
+});
+
+describe('bundled cases', () => {
+  it('should load every golden transcript with its labels', () => {
+    const cases = loadEvaluationCases();
+
+    expect(cases.map((c) => c.name)).toEqual(['incident-review', 'injection-attempt', 'sprint-planning']);
+    for (const c of cases) {
+      expect(c.transcript.utterances.length).toBeGreaterThan(0);
+      expect(c.expected.length).toBeGreaterThan(0);
+    }
+  });
+});
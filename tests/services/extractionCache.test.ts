@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the extraction cache stores and cached extraction
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  FileCacheStore,
+  MemoryCacheStore,
+  computeExtractionCacheKey,
+  readCachedExtraction,
+  setExtractionCacheStore,
+  writeCachedExtraction,
+} from '../../src/services/extractionCache';
+import { extractActionItems, invalidateExtractionCache, setLlmProvider } from '../../src/services/aiService';
+import { LlmProvider } from '../../src/services/llmProvider';
+import { ActionItemsResponse } from '../../src/models/actionItem';
+import { Transcript } from '../../src/models/transcript';
+
+const transcript: Transcript = {
+  utterances: [{ speaker: 'Sarah Johnson', start: 0, end: 4, text: "I'll fix the login bug today." }],
+};
+
+const keyParts = {
+  transcript: 'Sarah: fix the login bug',
+  prompt: [{ role: 'system', content: 'Extract tasks' }],
+  promptVersion: 'default@1.0.0',
+  model: 'gpt-4o',
+  temperature: 0.3,
+};
+
+function countingProvider(): LlmProvider {
+  let calls = 0;
+  return {
+    name: 'openai-compatible',
+    model: 'mock-model',
+    complete: jest.fn(async () => ({
+      content: JSON.stringify({
+        actionItems: [{ title: `Fix the login bug (run ${++calls})`, type: 'Bug', priority: 'High' }],
+      }),
+      model: 'mock-model',
+    })),
+  };
+}
+
+afterEach(() => {
+  setExtractionCacheStore(null);
+  jest.useRealTimers();
+});
+
+describe('computeExtractionCacheKey', () => {
+  it('should be stable and change with any key part', () => {
+    const key = computeExtractionCacheKey(keyParts);
+
+    expect(key).toMatch(/^[a-f0-9]{64}$/);
+    expect(computeExtractionCacheKey({ ...keyParts })).toBe(key);
+    expect(computeExtractionCacheKey({ ...keyParts, temperature: 0 })).not.toBe(key);
+    expect(computeExtractionCacheKey({ ...keyParts, promptVersion: 'ops@1.0.0' })).not.toBe(key);
+    expect(computeExtractionCacheKey({ ...keyParts, model: 'gpt-4o-mini' })).not.toBe(key);
+  });
+});
+
+describe('cache stores', () => {
+  const response: ActionItemsResponse = { actionItems: [], summary: 'Nothing to do.' };
+
+  it('should expire memory entries after the TTL', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-05-02T10:00:00Z'));
+    setExtractionCacheStore(new MemoryCacheStore());
+    const key = computeExtractionCacheKey(keyParts);
+
+    await writeCachedExtraction(key, response);
+    expect(await readCachedExtraction(key)).toEqual(response);
+
+    jest.setSystemTime(new Date('2024-05-03T10:00:01Z'));
+    expect(await readCachedExtraction(key)).toBeUndefined();
+  });
+
+  it('should persist file entries across store instances', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'extraction-cache-'));
+    const key = computeExtractionCacheKey(keyParts);
+
+    setExtractionCacheStore(new FileCacheStore(dir));
+    await writeCachedExtraction(key, response);
+
+    const store = new FileCacheStore<ActionItemsResponse>(dir);
+    expect((await store.get(key))?.value).toEqual(response);
+
+    await store.clear();
+    expect(await store.get(key)).toBeUndefined();
+    await expect(store.get('../etc/passwd')).rejects.toThrow('Invalid cache key');
+  });
+
+  it('should evict the least recently used memory entry beyond the cap', async () => {
+    const store = new MemoryCacheStore<string>(2);
+    await store.set('a', { value: 'first' });
+    await store.set('b', { value: 'second' });
+    await store.get('a');
+    await store.set('c', { value: 'third' });
+
+    expect(await store.get('a')).toEqual({ value: 'first' });
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toEqual({ value: 'third' });
+  });
+
+  it('should sweep expired memory entries on write', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-05-02T10:00:00Z'));
+    const store = new MemoryCacheStore<string>(10);
+    await store.set('a', { value: 'first', expiresAt: Date.now() + 1000 });
+    await store.set('b', { value: 'second' });
+
+    jest.setSystemTime(new Date('2024-05-02T10:00:02Z'));
+    await store.set('c', { value: 'third' });
+
+    expect((store as unknown as { entries: Map<string, unknown> }).entries.has('a')).toBe(false);
+    expect(await store.get('b')).toEqual({ value: 'second' });
+  });
+});
+
+describe('cached extraction', () => {
+  it('should replay the cached result until refreshed or invalidated', async () => {
+    const provider = countingProvider();
+    setLlmProvider(provider);
+    setExtractionCacheStore(new MemoryCacheStore());
+
+    const first = await extractActionItems(transcript);
+    const replay = await extractActionItems(transcript);
+    expect(provider.complete).toHaveBeenCalledTimes(1);
+    expect(replay.fromCache).toBe(true);
+    expect(replay.actionItems).toEqual(first.actionItems);
+
+    const refreshed = await extractActionItems(transcript, { refresh: true });
+    expect(refreshed.actionItems[0].title).toBe('Fix the login bug (run 2)');
+    expect((await extractActionItems(transcript)).actionItems[0].title).toBe('Fix the login bug (run 2)');
+
+    await invalidateExtractionCache(transcript);
+    expect((await extractActionItems(transcript)).actionItems[0].title).toBe('Fix the login bug (run 3)');
+  });
+
+  it('should key results by prompt template', async () => {
+    const provider = countingProvider();
+    setLlmProvider(provider);
+    setExtractionCacheStore(new MemoryCacheStore());
+
+    await extractActionItems(transcript);
+    await extractActionItems(transcript, { templateName: 'ops' });
+
+    expect(provider.complete).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Unit tests for the field mapping: loading, rule precedence, templates and transforms
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ActionItem } from '../../src/models/actionItem';
+import {
+  FieldMapping,
+  MappingInput,
+  clearFieldMappingCache,
+  loadFieldMapping,
+  resolveFieldMapping,
+} from '../../src/services/fieldMapping';
+
+function writeMapping(content: unknown): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'field-mapping-'));
+  const file = path.join(dir, 'mapping.json');
+  fs.writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+  return file;
+}
+
+function input(task: Partial<ActionItem>, overrides: Partial<MappingInput> = {}): MappingInput {
+  return {
+    task: { title: 'Fix the login bug', assignedTo: 'Sarah Chen', type: 'Bug', priority: 'High', ...task },
+    workItemType: 'Bug',
+    meetingSubject: 'Payments Standup',
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  clearFieldMappingCache();
+});
+
+describe('loadFieldMapping', () => {
+  it('should return no mapping when no file is configured', () => {
+    expect(loadFieldMapping('')).toEqual({});
+  });
+
+  it('should load and cache a valid mapping', () => {
+    const file = writeMapping({ '*': { '*': { fields: { 'Custom.CostCenter': 'CC-1042' }, tags: ['team:payments'] } } });
+
+    const mapping = loadFieldMapping(file);
+    fs.writeFileSync(file, '{}');
+
+    expect(loadFieldMapping(file)).toBe(mapping);
+  });
+
+  it('should report every problem in the file at once', () => {
+    const file = writeMapping({
+      TestProject: {
+        Bug: {
+          fields: {
+            'Custom.Component': { template: '{{item.component}}' },
+            'Custom.Size': { value: 3, transform: ['round'] },
+            'Custom.Empty': {},
+            'System.Tags': 'extra',
+          },
+          tags: ['owner:{{item.owner}}'],
+        },
+      },
+    });
+
+    expect(() => loadFieldMapping(file)).toThrow(
+      [
+        `Invalid field mapping ${file}:`,
+        '- TestProject → Bug → Custom.Component: unknown variables item.component',
+        '- TestProject → Bug → Custom.Size: unknown transforms round (use trim, upper, lower, slug, number, date)',
+        '- TestProject → Bug → Custom.Empty: set value or template',
+        '- TestProject → Bug → System.Tags: use "tags" to add tags',
+        '- TestProject → Bug → tags: unknown variables item.owner',
+      ].join('\n')
+    );
+  });
+
+  it('should reject files that are not JSON', () => {
+    const file = writeMapping('{ fields: ');
+
+    expect(() => loadFieldMapping(file)).toThrow(`Could not load field mapping ${file}`);
+  });
+});
+
+describe('resolveFieldMapping', () => {
+  const mapping: FieldMapping = {
+    '*': {
+      '*': { fields: { 'Custom.CostCenter': 'CC-0000', 'Custom.Component': 'General' }, tags: ['meeting-notes'] },
+    },
+    TestProject: {
+      '*': { fields: { 'Custom.CostCenter': 'CC-1042' } },
+      Bug: {
+        fields: {
+          'Custom.Component': { template: '{{meeting.subject}}', transform: ['slug'] },
+          'Custom.Owner': { template: '{{item.assignedTo}}', transform: 'upper' },
+        },
+        tags: ['severity:{{item.priority}}', 'meeting-notes'],
+      },
+    },
+    Other: { '*': { fields: { 'Custom.CostCenter': 'CC-9999' } } },
+  };
+
+  it('should apply the most specific rule per field and merge tags', () => {
+    expect(resolveFieldMapping(input({}), mapping)).toEqual({
+      fields: { 'Custom.CostCenter': 'CC-1042', 'Custom.Component': 'payments-standup', 'Custom.Owner': 'SARAH CHEN' },
+      tags: ['meeting-notes', 'severity:High'],
+      errors: [],
+    });
+  });
+
+  it('should match types by their Azure DevOps name', () => {
+    const scrum: FieldMapping = { TestProject: { 'Product Backlog Item': { fields: { 'Custom.Component': 'Backlog' } } } };
+
+    expect(
+      resolveFieldMapping(input({ type: 'User Story' }, { workItemType: 'Product Backlog Item' }), scrum).fields
+    ).toEqual({ 'Custom.Component': 'Backlog' });
+    expect(resolveFieldMapping(input({ type: 'Task' }, { workItemType: 'Task' }), scrum).fields).toEqual({});
+  });
+
+  it('should convert values and look them up in the map', () => {
+    const rules: FieldMapping = {
+      '*': {
+        '*': {
+          fields: {
+            'Custom.Points': { template: '{{item.estimate}}', transform: 'number' },
+            'Custom.Due': { template: '{{item.deadlineDate}}', transform: 'date' },
+            'Custom.Tier': { template: '{{item.priority}}', transform: 'lower', map: { high: 'Tier 1' } },
+          },
+        },
+      },
+    };
+
+    expect(
+      resolveFieldMapping(input({ estimate: { value: 5, unit: 'storyPoints' } }, { deadlineDate: '2026-10-23' }), rules)
+        .fields
+    ).toEqual({ 'Custom.Points': 5, 'Custom.Due': '2026-10-23T12:00:00.000Z', 'Custom.Tier': 'Tier 1' });
+  });
+
+  it('should leave out empty values and report required or unconvertible ones', () => {
+    const rules: FieldMapping = {
+      '*': {
+        Bug: {
+          fields: {
+            'Custom.Deadline': { template: '{{item.deadline}}' },
+            'Custom.Series': { template: '{{meeting.seriesId}}', required: true },
+            'Custom.Points': { template: '{{item.title}}', transform: 'number' },
+          },
+          tags: ['{{item.promptVersion}}'],
+        },
+      },
+    };
+
+    expect(resolveFieldMapping(input({}), rules)).toEqual({
+      fields: {},
+      tags: [],
+      errors: [
+        'Custom.Series is required by the field mapping but has no value',
+        'Custom.Points: "Fix the login bug" is not a number',
+      ],
+    });
+  });
+});
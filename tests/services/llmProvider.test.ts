@@ -0,0 +1,154 @@
+/**
+ * Unit tests for LLM provider selection and the chat completion request/response mapping
+ */
+import { config } from '../../src/config';
+
+const createCompletionMock = jest.fn();
+const openAIMock = jest.fn();
+const azureOpenAIMock = jest.fn();
+
+jest.mock('openai', () => {
+  const client = () => ({ chat: { completions: { create: createCompletionMock } } });
+  return {
+    __esModule: true,
+    default: jest.fn().mockImplementation((options) => {
+      openAIMock(options);
+      return client();
+    }),
+    AzureOpenAI: jest.fn().mockImplementation((options) => {
+      azureOpenAIMock(options);
+      return client();
+    }),
+  };
+});
+
+import { createLlmProvider } from '../../src/services/llmProvider';
+
+const messages = [{ role: 'user' as const, content: 'Extract the action items' }];
+
+beforeEach(() => {
+  openAIMock.mockClear();
+  azureOpenAIMock.mockClear();
+  createCompletionMock.mockReset().mockResolvedValue({
+    model: 'gpt-4o-2024-08-06',
+    choices: [{ message: { content: '{"actionItems": []}' } }],
+    usage: { prompt_tokens: 1200, completion_tokens: 80, total_tokens: 1280 },
+  });
+});
+
+describe('createLlmProvider', () => {
+  it('should use the Azure OpenAI deployment by default', () => {
+    const provider = createLlmProvider();
+
+    expect(provider.name).toBe('azure-openai');
+    expect(provider.model).toBe('gpt-4o');
+    expect(azureOpenAIMock).toHaveBeenCalledWith(
+      expect.objectContaining({ endpoint: 'https://test.openai.azure.com/', apiKey: 'test-openai-key' })
+    );
+    expect(openAIMock).not.toHaveBeenCalled();
+  });
+
+  it('should use the OpenAI platform with the configured key and organization', () => {
+    Object.assign(config.openAI, { apiKey: 'sk-test', organization: 'org-test' });
+
+    try {
+      const provider = createLlmProvider('openai');
+
+      expect(provider.name).toBe('openai');
+      expect(openAIMock).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'sk-test', organization: 'org-test' }));
+      expect(openAIMock.mock.calls[0][0]).not.toHaveProperty('baseURL');
+    } finally {
+      Object.assign(config.openAI, { apiKey: '', organization: '' });
+    }
+  });
+
+  it('should point OpenAI-compatible servers at their base URL without requiring a key', () => {
+    Object.assign(config.openAI, { baseUrl: 'http://localhost:11434/v1' });
+
+    try {
+      const provider = createLlmProvider('openai-compatible');
+
+      expect(provider.name).toBe('openai-compatible');
+      expect(openAIMock).toHaveBeenCalledWith(
+        expect.objectContaining({ baseURL: 'http://localhost:11434/v1', apiKey: 'not-required' })
+      );
+    } finally {
+      Object.assign(config.openAI, { baseUrl: '' });
+    }
+  });
+
+  it.each([
+    ['azure-openai', 'AZURE_OPENAI_ENDPOINT'],
+    ['azure-openai', 'AZURE_OPENAI_KEY'],
+    ['openai', 'OPENAI_API_KEY'],
+    ['openai-compatible', 'OPENAI_BASE_URL'],
+  ])('should refuse to start %s without %s', (provider, variable) => {
+    const env = { ...process.env };
+    process.env.LLM_PROVIDER = provider;
+    process.env.OPENAI_API_KEY = 'sk-test';
+    process.env.OPENAI_BASE_URL = 'http://localhost:11434/v1';
+    delete process.env[variable];
+
+    try {
+      jest.isolateModules(() => {
+        expect(() => require('../../src/config')).toThrow(`Missing required environment variable: ${variable}`);
+      });
+    } finally {
+      process.env = env;
+    }
+  });
+});
+
+describe('complete', () => {
+  it('should ask for a JSON object only when jsonMode is set', async () => {
+    const provider = createLlmProvider('azure-openai');
+
+    await provider.complete({ messages, jsonMode: true, temperature: 0, maxTokens: 500 });
+    await provider.complete({ messages });
+
+    expect(createCompletionMock.mock.calls[0][0]).toEqual({
+      model: 'gpt-4o',
+      messages,
+      temperature: 0,
+      max_tokens: 500,
+      response_format: { type: 'json_object' },
+    });
+    expect(createCompletionMock.mock.calls[1][0]).not.toHaveProperty('response_format');
+    expect(createCompletionMock.mock.calls[1][0]).toMatchObject({
+      temperature: config.llm.temperature,
+      max_tokens: config.llm.maxTokens,
+    });
+  });
+
+  it('should not ask for JSON from compatible servers without JSON mode', async () => {
+    Object.assign(config.openAI, { baseUrl: 'http://localhost:11434/v1', supportsJsonMode: false });
+
+    try {
+      await createLlmProvider('openai-compatible').complete({ messages, jsonMode: true });
+    } finally {
+      Object.assign(config.openAI, { baseUrl: '', supportsJsonMode: true });
+    }
+
+    expect(createCompletionMock.mock.calls[0][0]).not.toHaveProperty('response_format');
+  });
+
+  it('should return the content, reported model and token usage', async () => {
+    const result = await createLlmProvider().complete({ messages });
+
+    expect(result).toEqual({
+      content: '{"actionItems": []}',
+      model: 'gpt-4o-2024-08-06',
+      usage: { promptTokens: 1200, completionTokens: 80 },
+    });
+  });
+
+  it('should leave usage out when the server does not report it', async () => {
+    createCompletionMock.mockResolvedValueOnce({ choices: [] });
+
+    expect(await createLlmProvider().complete({ messages })).toEqual({
+      content: '',
+      model: 'gpt-4o',
+      usage: undefined,
+    });
+  });
+});
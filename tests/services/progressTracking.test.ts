@@ -0,0 +1,81 @@
+/**
+ * Unit tests for progress tracking: status updates on open work items
+ */
+import { ActionItemsResponse, OpenWorkItem } from '../../src/models/actionItem';
+import { Transcript } from '../../src/models/transcript';
+import { detectStatusUpdates, reconcileWithOpenItems } from '../../src/services/progressTracking';
+
+const openItems: OpenWorkItem[] = [
+  { id: 1, title: 'Fix the login timeout', type: 'Bug', state: 'Active', assignedTo: 'Sarah' },
+  { id: 2, title: 'Document the billing API', type: 'Task', state: 'New' },
+  { id: 3, title: 'Upgrade the build agents', type: 'Task', state: 'New' },
+];
+
+const transcript: Transcript = {
+  utterances: [
+    { speaker: 'Sarah', start: 0, end: 4, text: 'Quick update: I finished the login timeout fix yesterday.' },
+    { speaker: 'Mike', start: 4, end: 8, text: "I'm still blocked on the billing API docs, waiting for the schema." },
+    { speaker: 'Anna', start: 8, end: 12, text: 'The build agents are fine for now.' },
+  ],
+};
+
+describe('detectStatusUpdates', () => {
+  it('should find progress reports that name an open item', () => {
+    const updates = detectStatusUpdates(transcript, openItems);
+
+    expect(updates.map((update) => [update.workItemId, update.status])).toEqual([
+      [1, 'done'],
+      [2, 'blocked'],
+    ]);
+    expect(updates[0].source).toMatchObject({ speaker: 'Sarah', startTime: '00:00:00.000', verified: true });
+  });
+
+  it('should keep the latest report on an item', () => {
+    const updates = detectStatusUpdates(
+      {
+        utterances: [
+          { speaker: 'Sarah', start: 0, end: 4, text: 'I started on the login timeout.' },
+          { speaker: 'Sarah', start: 60, end: 64, text: 'Actually the login timeout is done, I merged it.' },
+        ],
+      },
+      openItems
+    );
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].status).toBe('done');
+  });
+
+  it('should find nothing without open items', () => {
+    expect(detectStatusUpdates(transcript, [])).toEqual([]);
+  });
+});
+
+describe('reconcileWithOpenItems', () => {
+  const response: ActionItemsResponse = {
+    actionItems: [
+      { title: 'Fix login timeout', assignedTo: 'Sarah', type: 'Bug', priority: 'High' },
+      { title: 'Add CSV export', assignedTo: 'Mike', type: 'User Story', priority: 'Medium' },
+    ],
+    statusUpdates: [
+      { workItemId: 1, status: 'inProgress' },
+      { workItemId: 1, status: 'done' },
+      { workItemId: 77, status: 'done' },
+    ],
+  };
+
+  it('should drop items that restate open items and updates for unknown items', () => {
+    const reconciled = reconcileWithOpenItems(response, openItems);
+
+    expect(reconciled.actionItems.map((item) => item.title)).toEqual(['Add CSV export']);
+    expect(reconciled.statusUpdates).toEqual([
+      { workItemId: 1, title: 'Fix the login timeout', type: 'Bug', status: 'done' },
+    ]);
+  });
+
+  it('should drop all status updates when the series has no open items', () => {
+    const reconciled = reconcileWithOpenItems(response, []);
+
+    expect(reconciled.actionItems).toHaveLength(2);
+    expect(reconciled.statusUpdates).toBeUndefined();
+  });
+});
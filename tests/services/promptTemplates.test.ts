@@ -0,0 +1,108 @@
+/**
+ * Unit tests for prompt template loading, rendering and selection
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  listPromptTemplates,
+  loadPromptTemplate,
+  renderPromptTemplate,
+  selectPromptTemplate,
+  formatPromptVersion,
+  clearPromptTemplateCache,
+} from '../../src/services/promptTemplates';
+
+function writeTemplates(files: Record<string, string>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+  return dir;
+}
+
+afterEach(() => {
+  clearPromptTemplateCache();
+});
+
+describe('bundled templates', () => {
+  it('should list every template but not the README', () => {
+    expect(listPromptTemplates()).toEqual(['default', 'design', 'ops']);
+  });
+
+  it('should load each template with a version', () => {
+    for (const name of listPromptTemplates()) {
+      const template = loadPromptTemplate(name);
+
+      expect(template.name).toBe(name);
+      expect(template.version).toMatch(/^\d+\.\d+\.\d+$/);
+    }
+  });
+
+  it('should load few-shot examples', () => {
+    const ops = loadPromptTemplate('ops');
+
+    expect(ops.examples.length).toBeGreaterThan(0);
+    expect(ops.examples[0].transcript).toContain('INC-2041');
+    expect(formatPromptVersion(ops)).toBe('ops@1.0.0');
+  });
+});
+
+describe('renderPromptTemplate', () => {
+  it('should substitute meeting variables and merge vocabulary', () => {
+    const ops = loadPromptTemplate('ops');
+
+    const text = renderPromptTemplate(ops, {
+      meetingSubject: 'Weekly ops sync',
+      meetingDate: '2024-05-02',
+      attendees: ['Priya Shah', 'Marco Ruiz'],
+      vocabulary: ['Kafka'],
+    });
+
+    expect(text).toContain('Meeting: Weekly ops sync');
+    expect(text).toContain('Date: 2024-05-02');
+    expect(text).toContain('Attendees: Priya Shah, Marco Ruiz');
+    expect(text).toContain('Project vocabulary: SLO, runbook, on-call, postmortem, pager, Kafka');
+    expect(text).not.toContain('{{');
+  });
+
+  it('should mark missing values', () => {
+    const text = renderPromptTemplate(loadPromptTemplate('default'));
+
+    expect(text).toContain('Meeting: not provided');
+  });
+});
+
+describe('loadPromptTemplate', () => {
+  it('should reject unknown variables', () => {
+    const dir = writeTemplates({ 'bad.md': '---\nversion: 1.0.0\n---\nHello {{meetingTitle}}' });
+
+    expect(() => loadPromptTemplate('bad', dir)).toThrow('unknown variables: meetingTitle');
+  });
+
+  it('should require a version', () => {
+    const dir = writeTemplates({ 'unversioned.md': 'No frontmatter here' });
+
+    expect(() => loadPromptTemplate('unversioned', dir)).toThrow('has no version');
+  });
+
+  it('should reject malformed examples', () => {
+    const dir = writeTemplates({
+      'team.md': '---\nversion: 2.1.0\nexamples: team.examples.json\n---\nBody',
+      'team.examples.json': '{"transcript": "not an array"}',
+    });
+
+    expect(() => loadPromptTemplate('team', dir)).toThrow('must be an array');
+  });
+
+  it('should report missing templates and reject path-like names', () => {
+    expect(() => loadPromptTemplate('does-not-exist')).toThrow('Prompt template not found');
+    expect(() => loadPromptTemplate('../secrets')).toThrow('Invalid prompt template name');
+  });
+});
+
+describe('selectPromptTemplate', () => {
+  it('should fall back to the default template', () => {
+    expect(selectPromptTemplate({ teamId: 'unknown-team', conversationId: 'unknown-chat' })).toBe('default');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for PII and secret redaction
+ */
+import { redactTranscript, restoreResponse, restoreText } from '../../src/services/redaction';
+import { ActionItemsResponse } from '../../src/models/actionItem';
+import { Transcript } from '../../src/models/transcript';
+
+function transcriptOf(...texts: string[]): Transcript {
+  return {
+    utterances: texts.map((text, i) => ({ speaker: 'Anna Lee', start: i * 5, end: i * 5 + 4, text })),
+  };
+}
+
+describe('redactTranscript', () => {
+  it('should mask emails, phone numbers, card numbers and IP addresses', () => {
+    const { transcript, counts } = redactTranscript(
+      transcriptOf(
+        'Email jane.doe@contoso.com or call +1 555-123-4567.',
+        'The card was 4111 1111 1111 1111 and the host is 10.0.12.7.'
+      )
+    );
+
+    expect(transcript.utterances[0].text).toBe('Email [EMAIL_1] or call [PHONE_1].');
+    expect(transcript.utterances[1].text).toBe('The card was [CREDIT_CARD_1] and the host is [IP_ADDRESS_1].');
+    expect(counts).toEqual({ EMAIL: 1, PHONE: 1, CREDIT_CARD: 1, IP_ADDRESS: 1 });
+  });
+
+  it('should mask secrets read aloud and well-known key formats', () => {
+    const { transcript } = redactTranscript(
+      transcriptOf(
+        'The staging password is Hunter2024!, please rotate it.',
+        'I pasted sk-proj-abcdefghijklmnopqrstuvwx into the chat.'
+      )
+    );
+
+    expect(transcript.utterances[0].text).toBe('The staging password is [SECRET_1], please rotate it.');
+    expect(transcript.utterances[1].text).toBe('I pasted [SECRET_2] into the chat.');
+  });
+
+  it('should leave plain words after credential cues and GUIDs alone', () => {
+    const { transcript, counts } = redactTranscript(
+      transcriptOf(
+        'The token is expired, so the pin is loose. The password was Reset.',
+        'Subscription 3f2504e0-4f89-41d3-9a0c-0305e82c3301 hosts the staging slot.',
+        'The api key is xK9fLm2Q and the secret: correctHorseBattery.'
+      )
+    );
+
+    expect(transcript.utterances[0].text).toBe('The token is expired, so the pin is loose. The password was Reset.');
+    expect(transcript.utterances[1].text).toContain('3f2504e0-4f89-41d3-9a0c-0305e82c3301');
+    expect(transcript.utterances[2].text).toBe('The api key is [SECRET_1] and the secret: [SECRET_2]');
+    expect(counts).toEqual({ SECRET: 2 });
+  });
+
+  it('should reuse placeholders, keep speakers and leave other numbers alone', () => {
+    const { transcript, entities } = redactTranscript(
+      transcriptOf('Ping ops@contoso.com about INC-2041.', 'Did OPS@contoso.com reply by 5pm?')
+    );
+
+    expect(transcript.utterances[1].text).toBe('Did [EMAIL_1] reply by 5pm?');
+    expect(transcript.utterances[0].text).toContain('INC-2041');
+    expect(transcript.utterances[0].speaker).toBe('Anna Lee');
+    expect(Object.keys(entities)).toEqual(['[EMAIL_1]']);
+  });
+
+  it('should apply custom patterns and the allow-list', () => {
+    const { transcript } = redactTranscript(
+      transcriptOf('Fabrikam escalated again; cc team@contoso.com and bob@fabrikam.com.'),
+      { patterns: { customer: '\\bFabrikam\\b' }, allowList: ['team@contoso.com'] }
+    );
+
+    expect(transcript.utterances[0].text).toBe('[CUSTOMER_1] escalated again; cc team@contoso.com and [EMAIL_1].');
+  });
+});
+
+describe('restoring redacted values', () => {
+  const redaction = redactTranscript(
+    transcriptOf('Send the report to jane.doe@contoso.com; the API key is abc123XYZ.')
+  );
+
+  it('should restore only the entity types the policy allows and never secrets', () => {
+    const text = 'Email [EMAIL_1] once [SECRET_1] is rotated';
+
+    expect(restoreText(text, redaction, [])).toBe(text);
+    expect(restoreText(text, redaction, ['EMAIL', 'SECRET'])).toBe('Email jane.doe@contoso.com once [SECRET_1] is rotated');
+  });
+
+  it('should restore every text field of an extraction result', () => {
+    const response: ActionItemsResponse = {
+      actionItems: [
+        {
+          title: 'Send the report to [EMAIL_1]',
+          assignedTo: 'Anna Lee',
+          type: 'Task',
+          priority: 'Medium',
+          source: { speaker: 'Anna Lee', quote: 'Send the report to [EMAIL_1]', verified: true },
+        },
+      ],
+      risks: [{ text: 'Key [SECRET_1] was shared in the meeting' }],
+      summary: 'Report goes to [EMAIL_1].',
+    };
+
+    const restored = restoreResponse(response, redaction, ['EMAIL']);
+
+    expect(restored.actionItems[0].title).toBe('Send the report to jane.doe@contoso.com');
+    expect(restored.actionItems[0].source?.quote).toBe('Send the report to jane.doe@contoso.com');
+    expect(restored.risks?.[0].text).toBe('Key [SECRET_1] was shared in the meeting');
+    expect(restored.summary).toBe('Report goes to jane.doe@contoso.com.');
+    expect(response.summary).toBe('Report goes to [EMAIL_1].');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for the offline rule-based action item extractor
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractActionItemsWithRules } from '../../src/services/ruleBasedExtractor';
+import { parseVtt } from '../../src/utils/transcriptParser';
+import { Transcript } from '../../src/models/transcript';
+
+const mockTranscript = parseVtt(
+  fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'mock_transcript.vtt'), 'utf-8')
+);
+
+function transcriptOf(lines: Array<[string, string]>): Transcript {
+  return {
+    utterances: lines.map(([speaker, text], i) => ({
+      speaker,
+      start: i * 5,
+      end: i * 5 + 4,
+      text,
+    })),
+  };
+}
+
+describe('extractActionItemsWithRules', () => {
+  it('should return the ActionItemsResponse shape', () => {
+    const result = extractActionItemsWithRules(mockTranscript);
+
+    expect(Array.isArray(result.actionItems)).toBe(true);
+    expect(typeof result.summary).toBe('string');
+    expect(result.extractionMethod).toBe('rules');
+  });
+
+  it('should pair requests with the accepting commitment', () => {
+    const result = extractActionItemsWithRules(mockTranscript);
+
+    expect(result.actionItems).toHaveLength(5);
+    expect(result.summary).toContain('3 speakers');
+  });
+
+  it('should assign commitments to the speaker', () => {
+    const result = extractActionItemsWithRules(mockTranscript);
+    const loginFix = result.actionItems[0];
+
+    expect(loginFix.title).toBe('Fix the login bug');
+    expect(loginFix.assignedTo).toBe('Sarah Johnson');
+  });
+
+  it('should classify bugs, stories and urgency', () => {
+    const result = extractActionItemsWithRules(mockTranscript);
+    const [loginFix, , profileStory] = result.actionItems;
+
+    expect(loginFix.type).toBe('Bug');
+    expect(loginFix.priority).toBe('High');
+    expect(loginFix.deadline).toBe('end of day');
+    expect(profileStory.type).toBe('User Story');
+  });
+
+  it('should prefer the deadline stated in the commitment', () => {
+    const result = extractActionItemsWithRules(mockTranscript);
+    const docs = result.actionItems[1];
+
+    expect(docs.title).toBe('Update the API docs');
+    expect(docs.assignedTo).toBe('Mike Chen');
+    expect(docs.deadline).toBe('Friday');
+  });
+
+  it('should honour explicit priority phrases', () => {
+    const result = extractActionItemsWithRules(mockTranscript);
+    const tests = result.actionItems[4];
+
+    expect(tests.title).toBe('Write the tests');
+    expect(tests.priority).toBe('Medium');
+    expect(tests.deadline).toBe('end of sprint');
+  });
+
+  it('should cite speaker, cue times and quote', () => {
+    const result = extractActionItemsWithRules(mockTranscript);
+
+    expect(result.actionItems[0].source).toEqual({
+      speaker: 'Sarah Johnson',
+      startTime: '00:00:20.500',
+      endTime: '00:00:28.000',
+      quote: "Sure, I'll fix that by end of day.",
+      verified: true,
+    });
+  });
+
+  it('should assign unanswered requests to the addressee', () => {
+    const result = extractActionItemsWithRules(
+      transcriptOf([
+        ['Anna Lee', 'Tom, can you rotate the staging certificates?'],
+        ['Tom Park', 'Thanks for the reminder, noted.'],
+      ])
+    );
+
+    expect(result.actionItems).toHaveLength(1);
+    expect(result.actionItems[0].assignedTo).toBe('Tom Park');
+    expect(result.actionItems[0].title).toBe('Rotate the staging certificates');
+  });
+
+  it('should record decisions, risks, blockers and open questions', () => {
+    const result = extractActionItemsWithRules(
+      transcriptOf([
+        ['Anna Lee', "We decided to keep Postgres for the reporting service."],
+        ['Tom Park', "I'm worried the migration might slip past the freeze."],
+        ['Anna Lee', "Deploys are blocked until the firewall change is approved."],
+        ['Tom Park', 'Should we version the export API, Anna?'],
+      ])
+    );
+
+    expect(result.actionItems).toHaveLength(0);
+    expect(result.decisions).toEqual([
+      expect.objectContaining({
+        text: 'We decided to keep Postgres for the reporting service.',
+        owner: 'Anna Lee',
+      }),
+    ]);
+    expect(result.risks?.[0].owner).toBe('Tom Park');
+    expect(result.blockers?.[0].text).toContain('firewall change');
+    expect(result.openQuestions?.[0]).toMatchObject({
+      text: 'Should we version the export API, Anna?',
+      owner: 'Anna Lee',
+    });
+    expect(result.decisions?.[0].source).toMatchObject({ speaker: 'Anna Lee', verified: true });
+  });
+
+  it('should return no items for small talk', () => {
+    const result = extractActionItemsWithRules(
+      transcriptOf([
+        ['John Smith', 'Good morning everyone.'],
+        ['Sarah Johnson', 'Morning! How was the weekend?'],
+      ])
+    );
+
+    expect(result.actionItems).toHaveLength(0);
+    expect(result.summary).toContain('No technical action items');
+  });
+
+  it('should not turn "let me know" and similar courtesies into items', () => {
+    const result = extractActionItemsWithRules(
+      transcriptOf([
+        ['John Smith', "That's the plan. Let me know if you have questions."],
+        ['Sarah Johnson', 'Please let us know when it is ready. Keep me posted.'],
+        ['John Smith', 'Let me share my screen.'],
+      ])
+    );
+
+    expect(result.actionItems).toEqual([]);
+  });
+
+  it('should handle an empty transcript', () => {
+    const result = extractActionItemsWithRules({ utterances: [] });
+
+    expect(result.actionItems).toEqual([]);
+  });
+});
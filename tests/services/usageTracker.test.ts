@@ -0,0 +1,118 @@
+/**
+ * Unit tests for token usage, cost rollups and daily budgets
+ */
+import {
+  BudgetExceededError,
+  assertWithinBudget,
+  estimateCost,
+  getUsageSummary,
+  recordUsage,
+  resetUsage,
+} from '../../src/services/usageTracker';
+import { extractActionItems, setLlmProvider } from '../../src/services/aiService';
+import { LlmProvider } from '../../src/services/llmProvider';
+
+jest.mock('../../src/config', () => {
+  const actual = jest.requireActual('../../src/config');
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      usage: {
+        prices: { 'local-llama': { prompt: 1, completion: 1 } },
+        dailyBudgetUsd: 1,
+        tenantDailyBudgetUsd: 0.1,
+      },
+    },
+  };
+});
+
+afterEach(() => {
+  resetUsage();
+});
+
+describe('estimateCost', () => {
+  it('should price by model family, preferring the most specific match', () => {
+    expect(estimateCost('gpt-4o-2024-08-06', { promptTokens: 1_000_000, completionTokens: 100_000 })).toBeCloseTo(3.5);
+    expect(estimateCost('prod-gpt-4o-mini', { promptTokens: 1_000_000, completionTokens: 0 })).toBeCloseTo(0.15);
+  });
+
+  it('should use configured prices and treat unknown models as free', () => {
+    expect(estimateCost('local-llama-8b', { promptTokens: 500_000, completionTokens: 500_000 })).toBeCloseTo(1);
+    expect(estimateCost('mistral-7b', { promptTokens: 1_000_000, completionTokens: 0 })).toBe(0);
+  });
+
+  it('should price mini and nano variants as themselves, not their larger family', () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 0 };
+
+    expect(estimateCost('o1-mini-2024-09-12', usage)).toBeCloseTo(1.1);
+    expect(estimateCost('o3-mini', usage)).toBeCloseTo(1.1);
+    expect(estimateCost('gpt-4.1-nano', usage)).toBeCloseTo(0.1);
+    expect(estimateCost('o1-preview', usage)).toBeCloseTo(15);
+  });
+
+  it('should not match a family inside another word', () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 0 };
+
+    expect(estimateCost('pro1', usage)).toBe(0);
+    expect(estimateCost('demo3-deployment', usage)).toBe(0);
+    expect(estimateCost('gpt-4.5-preview', usage)).toBe(0);
+  });
+});
+
+describe('recordUsage', () => {
+  it('should roll up calls per day, meeting, conversation and tenant', () => {
+    recordUsage('gpt-4o', { promptTokens: 1000, completionTokens: 200 }, { meetingId: 'm1', conversationId: 'c1', tenantId: 't1' });
+    recordUsage('gpt-4o', { promptTokens: 3000, completionTokens: 800 }, { meetingId: 'm2', tenantId: 't1' });
+
+    const summary = getUsageSummary();
+
+    expect(summary.date).toBe(new Date().toISOString().slice(0, 10));
+    expect(summary.total).toMatchObject({ calls: 2, promptTokens: 4000, completionTokens: 1000 });
+    expect(summary.total.costUsd).toBeCloseTo(0.02);
+    expect(summary.byMeeting.m1.promptTokens).toBe(1000);
+    expect(summary.byConversation).toEqual({ c1: expect.objectContaining({ calls: 1 }) });
+    expect(summary.byTenant.t1.calls).toBe(2);
+    expect(summary.budgets).toEqual({ dailyUsd: 1, tenantDailyUsd: 0.1 });
+  });
+});
+
+describe('assertWithinBudget', () => {
+  it('should refuse a tenant that spent its daily budget but not other tenants', () => {
+    recordUsage('gpt-4o', { promptTokens: 40_000, completionTokens: 0 }, { tenantId: 't1' });
+
+    expect(() => assertWithinBudget({ tenantId: 't1' })).toThrow(BudgetExceededError);
+    expect(() => assertWithinBudget({ tenantId: 't2' })).not.toThrow();
+  });
+
+  it('should refuse everyone once the overall budget is spent', () => {
+    recordUsage('gpt-4o', { promptTokens: 400_000, completionTokens: 0 });
+
+    expect(() => assertWithinBudget({ tenantId: 't2' })).toThrow('Daily LLM budget exceeded: $1.00 spent of $1.00');
+  });
+});
+
+describe('extraction usage', () => {
+  it('should charge extraction calls to the meeting and refuse once over budget', async () => {
+    const provider: LlmProvider = {
+      name: 'openai-compatible',
+      model: 'mock-model',
+      complete: jest.fn(async () => ({
+        content: JSON.stringify({ actionItems: [] }),
+        model: 'gpt-4o',
+        usage: { promptTokens: 30_000, completionTokens: 3_000 },
+      })),
+    };
+    setLlmProvider(provider);
+    const transcript = { utterances: [{ speaker: 'Anna Lee', start: 0, end: 3, text: "I'll rotate the certificates." }] };
+    const usageScope = { meetingId: 'm1', tenantId: 't1' };
+
+    await extractActionItems(transcript, { usageScope });
+    expect(getUsageSummary().byMeeting.m1).toMatchObject({ calls: 1, promptTokens: 30_000, completionTokens: 3_000 });
+
+    const refusal = await extractActionItems(transcript, { usageScope }).catch((error) => error);
+    expect(refusal).toBeInstanceOf(BudgetExceededError);
+    expect(refusal.toUserMessage()).toContain("Today's AI budget ($0.10)");
+    expect(provider.complete).toHaveBeenCalledTimes(1);
+  });
+});
@@ -14,6 +14,7 @@ process.env.BOT_PASSWORD = 'test-bot-password';
 process.env.NODE_ENV = 'test';
 process.env.ENABLE_TELEMETRY = 'false';
 process.env.ENABLE_RETRIES = 'false';
+process.env.EXTRACTION_CACHE = 'none';
 
 // Suppress console output during tests
 global.console = {
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the JSON schema validator
+ */
+import {
+  validateSchema,
+  formatValidationErrors,
+  JsonSchema,
+} from '../../src/utils/schemaValidator';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['items'],
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['title', 'priority'],
+        properties: {
+          title: { type: 'string', minLength: 1, maxLength: 10 },
+          priority: { type: 'string', enum: ['High', 'Low'] },
+          points: { type: 'integer', minimum: 0, maximum: 13 },
+        },
+      },
+    },
+  },
+};
+
+describe('validateSchema', () => {
+  it('should accept valid values', () => {
+    const errors = validateSchema({ items: [{ title: 'Fix bug', priority: 'High', points: 3 }] }, schema);
+
+    expect(errors).toEqual([]);
+  });
+
+  it('should report missing required fields with their path', () => {
+    const errors = validateSchema({ items: [{ title: 'Fix bug' }] }, schema);
+
+    expect(errors).toEqual([{ path: '$.items[0].priority', message: 'is required' }]);
+  });
+
+  it('should report type mismatches', () => {
+    const errors = validateSchema({ items: 'nope' }, schema);
+
+    expect(errors).toEqual([{ path: '$.items', message: 'expected array, got string' }]);
+  });
+
+  it('should report enum, length and range violations', () => {
+    const errors = validateSchema(
+      { items: [{ title: 'A very long title', priority: 'Urgent', points: 40 }] },
+      schema
+    );
+
+    expect(errors.map((e) => e.path)).toEqual([
+      '$.items[0].title',
+      '$.items[0].priority',
+      '$.items[0].points',
+    ]);
+  });
+
+  it('should reject non-integers for integer fields', () => {
+    const errors = validateSchema({ items: [{ title: 'X', priority: 'Low', points: 2.5 }] }, schema);
+
+    expect(errors[0].message).toBe('expected integer, got number');
+  });
+
+  it('should format errors one per line', () => {
+    const text = formatValidationErrors([
+      { path: '$.a', message: 'is required' },
+      { path: '$.b', message: 'expected string, got number' },
+    ]);
+
+    expect(text).toBe('$.a: is required\n$.b: expected string, got number');
+  });
+});
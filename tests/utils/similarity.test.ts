@@ -0,0 +1,53 @@
+/**
+ * Unit tests for text similarity measures
+ */
+import {
+  contentTokens,
+  tokenOverlap,
+  fuzzyRatio,
+  textSimilarity,
+  cosineSimilarity,
+} from '../../src/utils/similarity';
+
+describe('contentTokens', () => {
+  it('should drop stop words and plurals', () => {
+    expect(contentTokens('Update the API docs')).toEqual(['update', 'api', 'doc']);
+  });
+});
+
+describe('tokenOverlap', () => {
+  it('should match rephrased titles', () => {
+    expect(tokenOverlap('Fix login timeout', 'Fix the timeout on login page')).toBeCloseTo(0.75);
+  });
+
+  it('should score unrelated titles low', () => {
+    expect(tokenOverlap('Fix login timeout', 'Write release notes')).toBe(0);
+  });
+});
+
+describe('fuzzyRatio', () => {
+  it('should tolerate typos', () => {
+    expect(fuzzyRatio('Update authentication docs', 'Update authentcation docs')).toBeGreaterThan(0.9);
+  });
+
+  it('should be 1 for identical text', () => {
+    expect(fuzzyRatio('Deploy hotfix', 'deploy hotfix')).toBe(1);
+  });
+});
+
+describe('textSimilarity', () => {
+  it('should use the better of the two measures', () => {
+    const a = 'Fix login timeout';
+    const b = 'Fix the timeout on login page';
+
+    expect(textSimilarity(a, b)).toBe(Math.max(tokenOverlap(a, b), fuzzyRatio(a, b)));
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should compare vector directions', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([], [1])).toBe(0);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for token-aware transcript chunking
+ */
+import { chunkTranscript, formatChunk } from '../../src/utils/transcriptChunker';
+import { estimateTokens, getModelContextWindow, DEFAULT_CONTEXT_WINDOW } from '../../src/utils/tokenCounter';
+import { Transcript } from '../../src/models/transcript';
+
+function transcriptOf(lines: Array<[string, string]>): Transcript {
+  return {
+    utterances: lines.map(([speaker, text], i) => ({
+      speaker,
+      start: i * 5,
+      end: i * 5 + 4,
+      text,
+    })),
+  };
+}
+
+const sentence = 'We should look into the deployment pipeline before the release goes out.';
+
+describe('estimateTokens', () => {
+  it('should count words, digits and punctuation', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Hello, world!')).toBe(4);
+    expect(estimateTokens('123456')).toBe(2);
+  });
+});
+
+describe('getModelContextWindow', () => {
+  it('should match the most specific model family', () => {
+    expect(getModelContextWindow('gpt-4o-mini')).toBe(128000);
+    expect(getModelContextWindow('prod-gpt-4-32k')).toBe(32768);
+    expect(getModelContextWindow('gpt-4')).toBe(8192);
+  });
+
+  it('should fall back to a default for unknown models', () => {
+    expect(getModelContextWindow('my-local-model')).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+});
+
+describe('chunkTranscript', () => {
+  it('should return a single chunk when the transcript fits', () => {
+    const transcript = transcriptOf([
+      ['Ana', sentence],
+      ['Bo', sentence],
+    ]);
+
+    const chunks = chunkTranscript(transcript, { maxTokens: 1000, overlapTokens: 100 });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].utterances).toHaveLength(2);
+    expect(chunks[0].overlapCount).toBe(0);
+  });
+
+  it('should keep every chunk within the token budget', () => {
+    const transcript = transcriptOf(
+      Array.from({ length: 40 }, (_, i): [string, string] => [i % 2 ? 'Ana' : 'Bo', sentence])
+    );
+
+    const chunks = chunkTranscript(transcript, { maxTokens: 120, overlapTokens: 30 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.tokenCount).toBeLessThanOrEqual(120);
+    }
+  });
+
+  it('should break at speaker turns', () => {
+    const transcript = transcriptOf([
+      ['Ana', sentence],
+      ['Bo', sentence],
+      ['Bo', sentence],
+      ['Cy', sentence],
+    ]);
+
+    const chunks = chunkTranscript(transcript, { maxTokens: 80, overlapTokens: 0 });
+
+    expect(chunks.map((c) => c.utterances.map((u) => u.speaker))).toEqual([
+      ['Ana'],
+      ['Bo', 'Bo'],
+      ['Cy'],
+    ]);
+  });
+
+  it('should repeat the end of the previous chunk as overlap', () => {
+    const transcript = transcriptOf([
+      ['Ana', 'Bo, can you rotate the staging certificates?'],
+      ['Bo', "Sure, I'll do it tomorrow."],
+      ['Cy', sentence],
+      ['Ana', sentence],
+    ]);
+
+    const chunks = chunkTranscript(transcript, { maxTokens: 100, overlapTokens: 40 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    const second = chunks[1];
+    expect(second.overlapCount).toBeGreaterThan(0);
+    expect(second.utterances[0]).toBe(chunks[0].utterances[chunks[0].utterances.length - 1]);
+  });
+
+  it('should cover every utterance exactly once outside the overlap', () => {
+    const transcript = transcriptOf(
+      Array.from({ length: 25 }, (_, i): [string, string] => [`Speaker ${i % 3}`, `${sentence} (${i})`])
+    );
+
+    const chunks = chunkTranscript(transcript, { maxTokens: 100, overlapTokens: 40 });
+    const covered = chunks.flatMap((c) => c.utterances.slice(c.overlapCount));
+
+    expect(covered).toEqual(transcript.utterances);
+  });
+
+  it('should split an utterance longer than the budget by words', () => {
+    const transcript = transcriptOf([['Ana', Array(60).fill(sentence).join(' ')]]);
+
+    const chunks = chunkTranscript(transcript, { maxTokens: 200, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.utterances.every((u) => u.speaker === 'Ana'))).toBe(true);
+    expect(chunks.every((c) => c.tokenCount <= 200)).toBe(true);
+  });
+
+  it('should return no chunks for an empty transcript', () => {
+    expect(chunkTranscript({ utterances: [] }, { maxTokens: 100, overlapTokens: 10 })).toEqual([]);
+  });
+});
+
+describe('formatChunk', () => {
+  it('should mark where the repeated context ends', () => {
+    const transcript = transcriptOf([
+      ['Ana', sentence],
+      ['Bo', sentence],
+    ]);
+
+    const text = formatChunk({ index: 1, utterances: transcript.utterances, overlapCount: 1, tokenCount: 0 });
+    const lines = text.split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toContain('Ana:');
+    expect(lines[1]).toContain('previous part');
+    expect(lines[2]).toContain('Bo:');
+  });
+});
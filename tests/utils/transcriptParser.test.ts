@@ -0,0 +1,88 @@
+/**
+ * Unit tests for the VTT transcript parser
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  parseVtt,
+  parseTimestamp,
+  formatTimestamp,
+  formatTranscript,
+  getSpeakers,
+  isEmptyTranscript,
+  UNKNOWN_SPEAKER,
+} from '../../src/utils/transcriptParser';
+
+const fixtureVtt = fs.readFileSync(
+  path.join(__dirname, '..', 'fixtures', 'mock_transcript.vtt'),
+  'utf-8'
+);
+
+describe('parseVtt', () => {
+  it('should parse every cue into an utterance', () => {
+    const transcript = parseVtt(fixtureVtt);
+
+    expect(transcript.utterances).toHaveLength(17);
+  });
+
+  it('should extract speaker, timing and text', () => {
+    const transcript = parseVtt(fixtureVtt);
+
+    expect(transcript.utterances[2]).toEqual({
+      speaker: 'John Smith',
+      start: 12.5,
+      end: 20,
+      text: 'Yes, Sarah, can you take a look at that? It seems to be timing out after 30 seconds on the authentication endpoint.',
+    });
+  });
+
+  it('should join multi-line cue payloads and strip tags', () => {
+    const transcript = parseVtt(
+      'WEBVTT\n\nNOTE generated\n\n00:00:01.000 --> 00:00:04.000 align:start\n<v Ana>First line\nsecond <b>line</b></v>\n'
+    );
+
+    expect(transcript.utterances).toEqual([
+      { speaker: 'Ana', start: 1, end: 4, text: 'First line second line' },
+    ]);
+  });
+
+  it('should use a placeholder speaker for cues without a voice tag', () => {
+    const transcript = parseVtt('WEBVTT\n\n00:05.000 --> 00:06.500\nHello there\n');
+
+    expect(transcript.utterances[0].speaker).toBe(UNKNOWN_SPEAKER);
+    expect(transcript.utterances[0].start).toBe(5);
+  });
+
+  it('should handle Windows line endings', () => {
+    const transcript = parseVtt('WEBVTT\r\n\r\n1\r\n00:00:00.000 --> 00:00:02.000\r\n<v Bo>Hi</v>\r\n');
+
+    expect(transcript.utterances).toEqual([{ speaker: 'Bo', start: 0, end: 2, text: 'Hi' }]);
+  });
+
+  it('should return an empty transcript for empty input', () => {
+    expect(parseVtt('').utterances).toEqual([]);
+    expect(isEmptyTranscript(parseVtt('WEBVTT\n'))).toBe(true);
+  });
+});
+
+describe('timestamps', () => {
+  it('should round-trip timestamps', () => {
+    expect(parseTimestamp('01:02:03.500')).toBe(3723.5);
+    expect(formatTimestamp(3723.5)).toBe('01:02:03.500');
+  });
+});
+
+describe('formatTranscript', () => {
+  it('should render one timestamped line per utterance', () => {
+    const lines = formatTranscript(parseVtt(fixtureVtt)).split('\n');
+
+    expect(lines).toHaveLength(17);
+    expect(lines[0]).toBe(
+      "[00:00:00.000 - 00:00:05.000] John Smith: Good morning everyone, let's get started with our sprint planning."
+    );
+  });
+
+  it('should list speakers in order of appearance', () => {
+    expect(getSpeakers(parseVtt(fixtureVtt))).toEqual(['John Smith', 'Sarah Johnson', 'Mike Chen']);
+  });
+});
@@ -12,6 +12,7 @@ import {
 } from '../../src/utils/errorHandling';
 
 import { telemetry, trackOperation } from '../../src/utils/telemetry';
+import { KeyedQueue, mapWithConcurrency } from '../../src/utils/concurrency';
 
 describe('Correlation Context', () => {
   it('should create context with correlation ID', () => {
@@ -190,6 +191,86 @@ describe('withRetry', () => {
   });
 });
 
+describe('mapWithConcurrency', () => {
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it('should keep input order and report failures without rejecting', async () => {
+    const results = await mapWithConcurrency([30, 0, 10], 3, async (ms, index) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      if (index === 1) throw new Error('boom');
+      return index;
+    });
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 0 });
+    expect(results[1].status).toBe('rejected');
+    expect(results[2]).toEqual({ status: 'fulfilled', value: 2 });
+  });
+
+  it('should handle an empty list', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+
+  it.each([0, -2, NaN, 0.5])('should run one call at a time with a limit of %p', async (limit) => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3], limit, async (value) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return value;
+    });
+
+    expect(peak).toBe(1);
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled', 'fulfilled']);
+  });
+});
+
+describe('KeyedQueue', () => {
+  it('should run tasks for the same key one at a time, in order', async () => {
+    const queue = new KeyedQueue();
+    const events: string[] = [];
+    const task = (name: string, ms: number) => async () => {
+      events.push(`start ${name}`);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      events.push(`end ${name}`);
+      return name;
+    };
+
+    const runs = [queue.run('meeting-1', task('a', 20)), queue.run('meeting-1', task('b', 0)), queue.run('meeting-2', task('c', 5))];
+    expect(queue.isBusy('meeting-1')).toBe(true);
+
+    expect(await Promise.all(runs)).toEqual(['a', 'b', 'c']);
+    expect(events).toEqual(['start a', 'start c', 'end c', 'end a', 'start b', 'end b']);
+    expect(queue.isBusy('meeting-1')).toBe(false);
+  });
+
+  it('should keep going after a task fails', async () => {
+    const queue = new KeyedQueue();
+
+    const failed = queue.run('meeting-1', async () => {
+      throw new Error('boom');
+    });
+    const next = queue.run('meeting-1', async () => 'ok');
+
+    await expect(failed).rejects.toThrow('boom');
+    expect(await next).toBe('ok');
+  });
+});
+
 describe('withErrorHandling', () => {
   let context: CorrelationContext;
 